@@ -1,6 +1,7 @@
 import { Container, Sprite, Text } from 'pixi.js';
 import type { Player } from '../../components/game/Player';
 import { testForAABB } from './systems/Collision';
+import { AMMO } from '../../utils/ammo';
 export class AmmoBush extends Container {
     private body: Sprite;
     private labelIsShowing: boolean = false;
@@ -11,6 +12,12 @@ export class AmmoBush extends Container {
     private isAnimating: boolean = false;
     private fadeSpeed: number = 0.03; // Speed of fade animation (0.01 = slow, 0.1 = fast)
 
+    // Harvest animation, the bush rustles and tomatoes hop into the basket
+    private readonly HARVEST_TOMATOES = 3;
+    private harvestStartedAt: number | null = null;
+    private harvestTomatoes: Sprite[] = [];
+    private canHarvest: boolean = false;
+
 
     constructor(x: number, y: number) {
         super();
@@ -33,7 +40,20 @@ export class AmmoBush extends Container {
         return this.body.getBounds();
     }
 
+    /**
+     * Bush and basket in world coordinates, the server checks harvests against the same area
+     */
+    public getHarvestZone() {
+        return {
+            left: this.x - this.body.width / 2,
+            right: this.x + this.ammoBox.width * 2, // anchor -1 puts the basket one width right of x
+            top: this.y - this.body.height,
+            bottom: this.y,
+        };
+    }
+
     public destroy() {
+        this.clearHarvestTomatoes();
         this.body.destroy();
         if (this.floatingLabel) {
             this.floatingLabel.destroy();
@@ -43,31 +63,58 @@ export class AmmoBush extends Container {
     }
 
     
-    public update(player?: Player): void {
+    /**
+     * Bystanders join the fight here, everyone else refills their tomatoes once the bush
+     * has grown back. cooldownMs is how long until that is, needsAmmo whether the basket has room.
+     */
+    public update(player?: Player, cooldownMs: number = 0, needsAmmo: boolean = false): void {
         this.updateFadeAnimation();
-        if (!player || !player.getIsBystander()) {
+        this.updateHarvestAnimation();
+        this.canHarvest = false;
+        if (!player || !this.isInReach(player)) {
             this.hideLabel();
             return;
         }
-        if (testForAABB(player, this)) {
-            this.showLabel();
+
+        if (player.getIsBystander()) {
+            this.showLabel('Press E');
+        } else if (cooldownMs > 0) {
+            this.showLabel(`Regrowing ${Math.ceil(cooldownMs / 1000)}s`);
+        } else if (needsAmmo) {
+            this.canHarvest = true;
+            this.showLabel('Press E to harvest');
         } else {
             this.hideLabel();
         }
     }
 
-    public handleAmmoBushInteraction(player: Player, onInteractionCallback: () => void): void {
-        if (this.labelIsShowing === false || !player.getIsBystander()) return;
-        onInteractionCallback();
+    public handleAmmoBushInteraction(player: Player, onJoin: () => void, onHarvest: () => void): void {
+        if (this.labelIsShowing === false) return;
+        if (player.getIsBystander()) {
+            onJoin();
+        } else if (this.canHarvest) {
+            onHarvest();
+            this.playHarvestAnimation();
+        } else {
+            return;
+        }
         this.hideLabel();
     }
 
-    private showLabel(): void {
+    private isInReach(player: Player): boolean {
+        // Not the whole container, the label and harvested tomatoes would grow the reach
+        return testForAABB(player, this.body) || testForAABB(player, this.ammoBox);
+    }
+
+    private showLabel(text: string): void {
+        if (this.floatingLabel && this.floatingLabel.text !== text) {
+            this.floatingLabel.text = text; // Cooldown ticking down
+        }
         if (this.labelIsShowing) return; // Already showing
 
         if (!this.floatingLabel) {
             this.floatingLabel = new Text({
-                text: 'Press E',
+                text,
                 style: {
                     fontFamily: 'Pixel',
                     fontSize: 26,
@@ -120,4 +167,50 @@ export class AmmoBush extends Container {
         }
     }
 
+    private playHarvestAnimation(): void {
+        this.clearHarvestTomatoes();
+        this.harvestStartedAt = performance.now();
+        for (let i = 0; i < this.HARVEST_TOMATOES; i++) {
+            const tomato = Sprite.from('tomato');
+            tomato.anchor.set(0.5);
+            tomato.width = 22;
+            tomato.height = 22;
+            tomato.visible = false;
+            this.harvestTomatoes.push(tomato);
+            this.addChild(tomato);
+        }
+    }
+
+    private updateHarvestAnimation(): void {
+        if (this.harvestStartedAt === null) return;
+        const progress = Math.min(1, (performance.now() - this.harvestStartedAt) / AMMO.HARVEST_ANIMATION_MS);
+
+        // Rustle that dies down as the harvest finishes
+        this.body.x = Math.sin(progress * Math.PI * 8) * 6 * (1 - progress);
+
+        const from = { x: 0, y: -this.body.height * 0.6 };
+        const to = { x: this.ammoBox.width * 1.5, y: -this.ammoBox.height / 2 };
+        this.harvestTomatoes.forEach((tomato, index) => {
+            // Staggered so they don't fly as one clump
+            const t = Math.max(0, Math.min(1, progress * 1.5 - index * 0.15));
+            tomato.x = from.x + (to.x - from.x) * t + (index - 1) * 20 * (1 - t);
+            tomato.y = from.y + (to.y - from.y) * t - Math.sin(t * Math.PI) * 80;
+            tomato.visible = t > 0 && t < 1;
+        });
+
+        if (progress >= 1) {
+            this.body.x = 0;
+            this.clearHarvestTomatoes();
+            this.harvestStartedAt = null;
+        }
+    }
+
+    private clearHarvestTomatoes(): void {
+        for (const tomato of this.harvestTomatoes) {
+            this.removeChild(tomato);
+            tomato.destroy();
+        }
+        this.harvestTomatoes = [];
+    }
+
 }
\ No newline at end of file
@@ -0,0 +1,51 @@
+import { Container, Sprite, Text, TextStyle } from 'pixi.js';
+
+/**
+ * Tomato icon and count next to our own player, turns red when the basket is empty
+ */
+export class AmmoCounter extends Container {
+    private readonly ICON_SIZE = 18;
+    private readonly COLOR = '#FFFFFF';
+    private readonly EMPTY_COLOR = '#FF4444';
+    private icon: Sprite;
+    private countText: Text;
+    private ammo: number | null = null;
+
+    constructor() {
+        super();
+        this.icon = Sprite.from('tomato');
+        this.icon.width = this.ICON_SIZE;
+        this.icon.height = this.ICON_SIZE;
+        this.addChild(this.icon);
+
+        this.countText = new Text({
+            text: '',
+            style: new TextStyle({
+                fontFamily: 'Pixel',
+                fontSize: 18,
+                fill: this.COLOR,
+                stroke: { color: '#000000', width: 3 },
+            })
+        });
+        this.countText.anchor.set(0, 0.5);
+        this.countText.position.set(this.ICON_SIZE + 3, this.ICON_SIZE / 2);
+        this.addChild(this.countText);
+        this.visible = false;
+    }
+
+    /**
+     * Hidden when there is no count to show, e.g. while still a bystander
+     */
+    public setAmmo(ammo?: number): void {
+        this.visible = ammo !== undefined;
+        if (ammo === undefined || ammo === this.ammo) return;
+        this.ammo = ammo;
+        this.countText.text = `${ammo}`;
+        this.countText.style.fill = ammo === 0 ? this.EMPTY_COLOR : this.COLOR;
+        this.icon.alpha = ammo === 0 ? 0.4 : 1;
+    }
+
+    destroy(): void {
+        super.destroy({ children: true });
+    }
+}
@@ -0,0 +1,43 @@
+import { Container, Graphics } from 'pixi.js';
+
+/**
+ * Thin bar under a player showing how close they are to their next hill point
+ */
+export class CaptureProgressBar extends Container {
+    private readonly HEIGHT = 6;
+    private readonly COLOR = 0xFFD700;
+    private barWidth: number;
+    private fill: Graphics;
+    private progress: number = 0;
+
+    constructor(width: number) {
+        super();
+        this.barWidth = width;
+        const background = new Graphics()
+            .rect(0, 0, width, this.HEIGHT)
+            .fill({ color: 0x333333, alpha: 0.8 });
+        this.addChild(background);
+
+        this.fill = new Graphics();
+        this.addChild(this.fill);
+        this.visible = false;
+    }
+
+    /**
+     * 0 to 1, hidden when there is no progress to show
+     */
+    public setProgress(progress?: number): void {
+        const clamped = Math.max(0, Math.min(1, progress ?? 0));
+        if (clamped === this.progress) return;
+        this.progress = clamped;
+        this.visible = clamped > 0;
+        this.fill.clear();
+        if (clamped > 0) {
+            this.fill.rect(0, 0, this.barWidth * clamped, this.HEIGHT).fill(this.COLOR);
+        }
+    }
+
+    destroy(): void {
+        super.destroy({ children: true });
+    }
+}
@@ -2,14 +2,37 @@ import { Graphics, Container, TextStyle, Text, Sprite } from 'pixi.js';
 import type { PositionVector } from './systems/Vector';
 import { NetworkManager } from '../../managers/NetworkManager';
 import lerp from '../../utils/utils';
+import { config } from '../../utils/config';
+import type { Platform } from './Platform';
+import { SpeechBubble } from './SpeechBubble';
+import { CaptureProgressBar } from './CaptureProgressBar';
+import { PowerUpAura } from './PowerUpAura';
+import { DEFAULT_ENEMY_COLOR, TEAM_COLORS } from '../../utils/teams';
+import type { PowerUpType, TeamId } from '../../types/network.types';
 
 export interface EnemyPosition extends PositionVector {
     timestamp: number;
+    vx?: number;
+    vy?: number;
 };
 
+interface GameBounds {
+    left: number;
+    right: number;
+    top: number;
+    bottom: number;
+}
+
 
 export class EnemyPlayer extends Container {
   private readonly INTERPOLATION_DELAY = 50; // milliseconds - reduced from 100ms
+  // Physics used for dead reckoning, mirrors Player
+  private readonly GRAVITY = 1500;
+  private readonly MAX_FALL_SPEED = 1500;
+  private readonly EXTRAPOLATION_STEP_S = 1 / 60;
+  // How long the switch from extrapolated back to interpolated positions is smoothed over
+  private readonly BLEND_DURATION_MS = 150;
+  private static maxExtrapolationMs: number = config.ENEMY_MAX_EXTRAPOLATION_MS;
   private id: string;
   private body: Graphics;
   private healthBar: Graphics;
@@ -22,10 +45,20 @@ export class EnemyPlayer extends Container {
   private healthBarContainer: Container;
   private isBystander: boolean;
   private nameText: Text;
+  private speechBubble: SpeechBubble;
+  private captureProgressBar: CaptureProgressBar;
+  private powerUpAura: PowerUpAura;
   private tomatoSprite: Sprite | null = null;
   private onSpawn: (enemyPlayer: EnemyPlayer) => void;
   private isAlive: boolean = true; // Track if the enemy is currently alive
+  private predictedDead: boolean = false; // Our hit should have killed it, waiting on the server
   private positionBuffer: EnemyPosition[] = [];
+  private platforms: Platform[] = [];
+  private gameBounds: GameBounds | null = null;
+  private isExtrapolating: boolean = false;
+  private blendOffset: PositionVector = { x: 0, y: 0 };
+  private blendStartTime: number = 0;
+  private renderTime: number = 0;
   public playerName: string;
 
   // Invulnerability system
@@ -33,7 +66,8 @@ export class EnemyPlayer extends Container {
   private static readonly FLASH_START_RATIO = 0.7; // When flashing begins (70% through duration)
   private invulnerabilityStartTime: number = 0;
   private isInvulnerable: boolean = false;
-  private originalBodyColor: string = '#D06DFE'; // Default enemy color
+  private originalBodyColor: number = DEFAULT_ENEMY_COLOR;
+  private team?: TeamId;
   private flashInterval?: NodeJS.Timeout;
 
   constructor(
@@ -73,6 +107,19 @@ export class EnemyPlayer extends Container {
     this.nameText.anchor.set(0.5, 1); // Center horizontally, align bottom
     this.nameText.y = -20; // Position above health bar
     this.healthBarContainer.addChild(this.nameText);
+
+    this.speechBubble = new SpeechBubble();
+    this.speechBubble.x = this.body.width / 2;
+    this.speechBubble.y = this.nameText.y - this.nameText.height - 4;
+    this.addChild(this.speechBubble);
+
+    // Below the body, the space above is taken by the name tag and health bar
+    this.captureProgressBar = new CaptureProgressBar(this.body.width);
+    this.captureProgressBar.y = this.body.height + 6;
+    this.addChild(this.captureProgressBar);
+
+    this.powerUpAura = new PowerUpAura(this.body.width);
+    this.addChildAt(this.powerUpAura, 0); // Behind the body
   
     // Create health bar background
     const healthBarBg = new Graphics()
@@ -96,6 +143,21 @@ export class EnemyPlayer extends Container {
   }
 
 
+  /**
+   * Longest time past the newest snapshot we keep predicting movement before holding still
+   */
+  public static setMaxExtrapolationMs(ms: number): void {
+    EnemyPlayer.maxExtrapolationMs = Math.max(0, ms);
+  }
+
+  public setPlatforms(platforms: Platform[]): void {
+    this.platforms = platforms;
+  }
+
+  public setGameBounds(gameBounds: GameBounds): void {
+    this.gameBounds = gameBounds;
+  }
+
   public onPositionUpdate(position: EnemyPosition): void {
     this.positionBuffer.push(position);
     if (this.positionBuffer.length > 10) { // Increased from 5 to 10
@@ -122,6 +184,27 @@ export class EnemyPlayer extends Container {
       // Revert to server-authoritative health
       this.predictedHealth = this.serverHealth;
       this.updateHealthBar();
+      this.cancelPredictedDeath();
+  }
+
+  /**
+   * Hide the enemy as soon as a predicted hit takes it to zero health. The server
+   * confirms with isDead, otherwise the pending collision times out and reverts it.
+   */
+  public predictDeath(): void {
+      if (!this.isAlive || this.predictedDead) return;
+      this.predictedDead = true;
+      this.visible = false;
+  }
+
+  public cancelPredictedDeath(): void {
+      if (!this.predictedDead) return;
+      this.predictedDead = false;
+      this.visible = this.isAlive;
+  }
+
+  public isPredictedDead(): boolean {
+      return this.predictedDead;
   }
 
   public setIsBystander(value?: boolean): void {
@@ -135,7 +218,7 @@ export class EnemyPlayer extends Container {
 
       // Change color based on bystander status
       this.body.clear();  
-      this.body.rect(0, 0, 50, 50).fill(this.isBystander ? 0x808080 : '#D06DFE');
+      this.body.rect(0, 0, 50, 50).fill(this.isBystander ? 0x808080 : this.originalBodyColor);
 
       if (this.isBystander === false) {
         this.tomatoSprite = Sprite.from('tomato');
@@ -154,6 +237,23 @@ export class EnemyPlayer extends Container {
       return this.isBystander;
   }
 
+  /**
+   * Team modes color players by team instead of the free-for-all purple
+   */
+  public setTeam(team?: TeamId): void {
+      if (this.team === team) return;
+      this.team = team;
+      this.originalBodyColor = team ? TEAM_COLORS[team] : DEFAULT_ENEMY_COLOR;
+      if (this.isAlive && !this.isBystander && !this.isInvulnerable) {
+        this.body.clear();
+        this.body.rect(0, 0, 50, 50).fill(this.originalBodyColor);
+      }
+  }
+
+  public getTeam(): TeamId | undefined {
+      return this.team;
+  }
+
 
   setHealth(updatedServerHealth?: number): void {
       if (updatedServerHealth === undefined || !this.isAlive) return;
@@ -167,6 +267,18 @@ export class EnemyPlayer extends Container {
       this.updateHealthBar();
   }
 
+  /**
+   * Undo a single predicted hit the server rejected, without touching other hits still in flight
+   */
+  undoDamage(amount: number = 10): void {
+      if (!this.isAlive) return;
+      this.predictedHealth = Math.min(this.serverHealth, this.predictedHealth + amount);
+      this.updateHealthBar();
+      if (this.predictedHealth > 0) {
+          this.cancelPredictedDeath();
+      }
+  }
+
   getServerHealth(): number {
     return this.serverHealth;
   }
@@ -190,7 +302,7 @@ export class EnemyPlayer extends Container {
       // Only restore color if still alive
       if (this.isAlive) {
         this.body.clear();
-        this.body.rect(0, 0, 50, 50).fill('#D06DFE');
+        this.body.rect(0, 0, 50, 50).fill(this.originalBodyColor);
       }
     }, 100);
   }
@@ -201,7 +313,7 @@ export class EnemyPlayer extends Container {
 
   getBounds(skipUpdate?: boolean, bounds?: any) {
       // Only return bounds of the body if alive
-      if (!this.isAlive) {
+      if (!this.isAlive || this.predictedDead) {
           // Return super getBounds but with zero size for dead enemies
           const emptyBounds = super.getBounds(skipUpdate, bounds);
           emptyBounds.width = 0;
@@ -226,6 +338,7 @@ export class EnemyPlayer extends Container {
       console.log('killing enemy player', this.id);
 
       this.isAlive = false;
+      this.predictedDead = false;
       if (this.parent) {
           this.parent.removeChild(this);
       }
@@ -233,6 +346,7 @@ export class EnemyPlayer extends Container {
 
       
       this.positionBuffer = [];
+      this.resetExtrapolation();
 
       // Clear any pending timeouts
       if (this.damageFlashTimeout) {
@@ -255,15 +369,17 @@ export class EnemyPlayer extends Container {
   public respawn(spawnX: number, spawnY: number): void {
       // Clear position buffer and initialize with spawn position to prevent interpolation jump
       this.positionBuffer = [];
+      this.resetExtrapolation();
       
       this.body.clear();
-      this.body.rect(0, 0, 50, 50).fill('#D06DFE');
+      this.body.rect(0, 0, 50, 50).fill(this.originalBodyColor);
 
 
       // Reset position
       this.x = spawnX;
       this.y = spawnY;
       this.isAlive = true;
+      this.predictedDead = false;
 
       console.log('respawning enemy player at ', spawnX, spawnY);
       
@@ -389,6 +505,9 @@ export class EnemyPlayer extends Container {
     this.healthBar.destroy();
     this.nameText.destroy();
     this.healthBarContainer.destroy();
+    this.speechBubble.destroy();
+    this.captureProgressBar.destroy();
+    this.powerUpAura.destroy();
 
     // Call parent destroy method
     super.destroy({
@@ -401,6 +520,31 @@ export class EnemyPlayer extends Container {
     return this.playerName;
   }
 
+  /**
+   * Show a quick chat phrase above the name tag
+   */
+  public showSpeechBubble(text: string): void {
+    this.speechBubble.show(text);
+  }
+
+  /**
+   * Progress towards the next king of the hill point, nothing to show outside the hill
+   */
+  public setHillProgress(progress?: number): void {
+    this.captureProgressBar.setProgress(progress);
+  }
+
+  public setPowerUp(type?: PowerUpType): void {
+    this.powerUpAura.setPowerUp(type);
+  }
+
+  /**
+   * Server time of the snapshot we are currently showing (interpolation delay included)
+   */
+  public getRenderTime(): number {
+    return this.renderTime;
+  }
+
   public update(): void {
     if (this.isAlive === false) return;
 
@@ -409,15 +553,100 @@ export class EnemyPlayer extends Container {
     const currentServerTime = currentTime + networkManager.getServerTimeOffset();
     const adaptiveDelay = this.INTERPOLATION_DELAY + (networkManager.getSmoothedJitter() * 0.5);
     const renderTime = currentServerTime - adaptiveDelay;
+    this.renderTime = renderTime;
     const toPositionIndex = this.positionBuffer.findIndex(pos => pos.timestamp > renderTime);
     const fromPosition = this.positionBuffer[toPositionIndex - 1];
     const toPosition = this.positionBuffer[toPositionIndex];
 
     if (fromPosition && toPosition) {
       const t = (renderTime - fromPosition.timestamp) / (toPosition.timestamp - fromPosition.timestamp);
-      this.x = lerp(fromPosition.x, toPosition.x, t);
-      this.y = lerp(fromPosition.y, toPosition.y, t);
+      const x = lerp(fromPosition.x, toPosition.x, t);
+      const y = lerp(fromPosition.y, toPosition.y, t);
+
+      if (this.isExtrapolating) {
+        // Real snapshots are back, ease out the error instead of snapping
+        this.isExtrapolating = false;
+        this.blendOffset = { x: this.x - x, y: this.y - y };
+        this.blendStartTime = currentTime;
+      }
+
+      const blend = this.getBlendFactor(currentTime);
+      this.x = x + this.blendOffset.x * blend;
+      this.y = y + this.blendOffset.y * blend;
+      return;
     }
+
+    // Buffer ran dry, dead reckon from the newest snapshot for a bounded amount of time
+    const newestPosition = this.positionBuffer[this.positionBuffer.length - 1];
+    if (toPositionIndex === -1 && newestPosition && newestPosition.vx !== undefined && newestPosition.vy !== undefined) {
+      const extrapolationMs = Math.min(renderTime - newestPosition.timestamp, EnemyPlayer.maxExtrapolationMs);
+      if (extrapolationMs <= 0) return;
+
+      const { x, y } = this.extrapolate(newestPosition, extrapolationMs / 1000);
+      this.isExtrapolating = true;
+      this.x = x;
+      this.y = y;
+    }
+  }
+
+  private getBlendFactor(currentTime: number): number {
+    if (this.blendOffset.x === 0 && this.blendOffset.y === 0) return 0;
+    const remaining = 1 - (currentTime - this.blendStartTime) / this.BLEND_DURATION_MS;
+    if (remaining <= 0) {
+      this.blendOffset = { x: 0, y: 0 };
+      return 0;
+    }
+    return remaining;
+  }
+
+  /**
+   * Simulate the enemy forward from a snapshot using its velocity, gravity and platforms.
+   * Position is the bottom center of the body (see pivot).
+   */
+  private extrapolate(from: EnemyPosition, durationS: number): PositionVector {
+    let x = from.x;
+    let y = from.y;
+    const vx = from.vx ?? 0;
+    let vy = from.vy ?? 0;
+
+    let remaining = durationS;
+    while (remaining > 0) {
+      const dt = Math.min(this.EXTRAPOLATION_STEP_S, remaining);
+      remaining -= dt;
+
+      vy = Math.min(vy + this.GRAVITY * dt, this.MAX_FALL_SPEED);
+      const previousY = y;
+      x += vx * dt;
+      y += vy * dt;
+
+      if (this.gameBounds) {
+        x = Math.max(this.gameBounds.left + 25, Math.min(x, this.gameBounds.right - 25));
+        if (y >= this.gameBounds.bottom) {
+          y = this.gameBounds.bottom;
+          vy = 0;
+        }
+      }
+
+      // Land on platforms we were above in the previous step
+      if (vy > 0) {
+        for (const platform of this.platforms) {
+          const bounds = platform.getPlatformBounds();
+          const isWithinPlatformWidth = x + 25 > bounds.left && x - 25 < bounds.right;
+          if (isWithinPlatformWidth && previousY <= bounds.top && y >= bounds.top) {
+            y = bounds.top;
+            vy = 0;
+            break;
+          }
+        }
+      }
+    }
+
+    return { x, y };
+  }
+
+  private resetExtrapolation(): void {
+    this.isExtrapolating = false;
+    this.blendOffset = { x: 0, y: 0 };
   }
 
 }
\ No newline at end of file
@@ -0,0 +1,76 @@
+import { Container, Graphics, Text } from 'pixi.js';
+import type { HillZone } from '../../types/network.types';
+
+export type HillState = 'empty' | 'held' | 'contested';
+
+const HILL_COLORS: Record<HillState, number> = {
+    empty: 0xFFFFFF,
+    held: 0xFFD700,
+    contested: 0xFF4444,
+};
+
+/**
+ * Highlighted zone in king of the hill. Gold while someone holds it alone,
+ * flashing red while it is contested.
+ */
+export class Hill extends Container {
+    private area: Graphics;
+    private statusText: Text;
+    private zoneWidth: number;
+    private zoneHeight: number;
+    private state: HillState | null = null;
+
+    constructor(zone: HillZone) {
+        super();
+        this.zoneWidth = zone.right - zone.left;
+        this.zoneHeight = zone.bottom - zone.top;
+
+        this.area = new Graphics();
+        this.addChild(this.area);
+
+        this.statusText = new Text({
+            text: '',
+            style: {
+                fontFamily: 'Pixel',
+                fontSize: 24,
+                fill: 0xffffff,
+                stroke: { color: 0x000000, width: 4 },
+                align: 'center',
+            }
+        });
+        this.statusText.anchor.set(0.5, 1);
+        this.statusText.position.set(this.zoneWidth / 2, -6);
+        this.addChild(this.statusText);
+
+        this.position.set(zone.left, zone.top);
+        this.zIndex = 1; // Behind everything that moves
+        this.setState('empty', 'HILL');
+    }
+
+    public setState(state: HillState, label: string): void {
+        this.statusText.text = label;
+        if (state === this.state) return;
+        this.state = state;
+
+        const color = HILL_COLORS[state];
+        this.area.clear();
+        this.area
+            .rect(0, 0, this.zoneWidth, this.zoneHeight)
+            .fill({ color, alpha: 0.2 })
+            .stroke({ color, width: 3, alpha: 0.9 });
+        this.statusText.style.fill = color;
+        this.alpha = 1;
+    }
+
+    /**
+     * Flash while contested, call every tick
+     */
+    public update(): void {
+        if (this.state !== 'contested') return;
+        this.alpha = 0.6 + 0.4 * Math.abs(Math.sin(performance.now() / 150));
+    }
+
+    destroy(): void {
+        super.destroy({ children: true });
+    }
+}
@@ -0,0 +1,185 @@
+import { Container, Graphics, Sprite, Text, TextStyle } from 'pixi.js';
+import type { PositionVector } from './systems/Vector';
+import type { TeamId } from '../../types/network.types';
+import { DEFAULT_ENEMY_COLOR, DEFAULT_PLAYER_COLOR, TEAM_COLORS } from '../../utils/teams';
+
+// What was on screen during one game tick. Recorded every tick while alive so a death
+// can be replayed exactly as the player saw it.
+export interface KillCamFrame {
+    players: { id: string; name: string; team?: TeamId; x: number; y: number; alive: boolean }[];
+    projectiles: { id: string; ownerId: string; x: number; y: number }[];
+}
+
+export interface KillCamTarget {
+    victimId: string;
+    killerId: string | null;
+    lethalProjectileId: string | null;
+}
+
+export class KillCam extends Container {
+    private readonly TICK_RATE = 30;
+    private readonly BUFFER_SECONDS = 5;
+    private readonly PLAYBACK_SECONDS = 3;
+    private frames: KillCamFrame[] = [];
+    private playbackFrames: KillCamFrame[] = [];
+    private playbackIndex: number = 0;
+    private target: KillCamTarget | null = null;
+    private playerGhosts: Map<string, Container> = new Map();
+    private projectileGhosts: Map<string, Container> = new Map();
+
+    constructor() {
+        super();
+        this.zIndex = 4000; // Above the live world
+        this.visible = false;
+    }
+
+    /**
+     * Add the frame for the current tick, older frames fall out of the buffer
+     */
+    public record(frame: KillCamFrame): void {
+        this.frames.push(frame);
+        const maxFrames = this.BUFFER_SECONDS * this.TICK_RATE;
+        if (this.frames.length > maxFrames) {
+            this.frames.shift();
+        }
+    }
+
+    /**
+     * Start replaying the last few seconds leading up to the death
+     */
+    public start(target: KillCamTarget): void {
+        this.target = target;
+        this.playbackFrames = this.frames.slice(-this.PLAYBACK_SECONDS * this.TICK_RATE);
+        this.playbackIndex = 0;
+        this.frames = [];
+        this.visible = this.playbackFrames.length > 0;
+    }
+
+    public stop(): void {
+        this.target = null;
+        this.playbackFrames = [];
+        this.visible = false;
+        this.clearGhosts();
+    }
+
+    public isActive(): boolean {
+        return this.target !== null && this.playbackFrames.length > 0;
+    }
+
+    public getTarget(): KillCamTarget | null {
+        return this.target;
+    }
+
+    /**
+     * Show the next frame, call once per tick. The last frame is held until stop().
+     * Returns the position the camera should follow.
+     */
+    public update(): PositionVector | null {
+        if (!this.isActive() || !this.target) return null;
+
+        const frame = this.playbackFrames[this.playbackIndex];
+        this.playbackIndex = Math.min(this.playbackIndex + 1, this.playbackFrames.length - 1);
+        this.renderFrame(frame);
+
+        // Follow the killer, or the victim if we don't know who it was
+        const followId = this.target.killerId ?? this.target.victimId;
+        const followed = frame.players.find(player => player.id === followId)
+            ?? frame.players.find(player => player.id === this.target?.victimId);
+        return followed ? { x: followed.x, y: followed.y } : null;
+    }
+
+    private renderFrame(frame: KillCamFrame): void {
+        const seenPlayers = new Set<string>();
+        for (const player of frame.players) {
+            seenPlayers.add(player.id);
+            let ghost = this.playerGhosts.get(player.id);
+            if (!ghost) {
+                ghost = this.createPlayerGhost(player.id, player.name, player.team);
+                this.playerGhosts.set(player.id, ghost);
+                this.addChild(ghost);
+            }
+            ghost.position.set(player.x, player.y);
+            ghost.visible = player.alive;
+        }
+        this.removeMissing(this.playerGhosts, seenPlayers);
+
+        const seenProjectiles = new Set<string>();
+        for (const projectile of frame.projectiles) {
+            seenProjectiles.add(projectile.id);
+            let ghost = this.projectileGhosts.get(projectile.id);
+            if (!ghost) {
+                ghost = this.createProjectileGhost(projectile.id === this.target?.lethalProjectileId);
+                this.projectileGhosts.set(projectile.id, ghost);
+                this.addChild(ghost);
+            }
+            ghost.position.set(projectile.x, projectile.y);
+        }
+        this.removeMissing(this.projectileGhosts, seenProjectiles);
+    }
+
+    private createPlayerGhost(id: string, name: string, team?: TeamId): Container {
+        const ghost = new Container();
+        // Same colors as the live world, the victim is always us
+        let color = id === this.target?.victimId ? DEFAULT_PLAYER_COLOR : DEFAULT_ENEMY_COLOR;
+        if (team) color = TEAM_COLORS[team];
+
+        const body = new Graphics().rect(0, 0, 50, 50).fill(color);
+        if (id === this.target?.killerId) {
+            // Outline the killer like the tomato that landed
+            body.stroke({ color: 0xff4444, width: 3 });
+        }
+        ghost.addChild(body);
+
+        const nameText = new Text({
+            text: name,
+            style: new TextStyle({
+                fontFamily: 'Arial',
+                fontSize: 14,
+                fill: 0xFFFFFF,
+                align: 'center'
+            })
+        });
+        nameText.anchor.set(0.5, 1);
+        nameText.position.set(25, -20);
+        ghost.addChild(nameText);
+
+        // Same bottom center pivot as the real players
+        ghost.pivot.set(25, 50);
+        return ghost;
+    }
+
+    private createProjectileGhost(isLethal: boolean): Container {
+        const ghost = new Container();
+        if (isLethal) {
+            // Ring around the tomato that landed
+            ghost.addChild(new Graphics().circle(10, 10, 18).stroke({ color: 0xff4444, width: 3 }));
+        }
+        const tomato = Sprite.from('tomato');
+        tomato.width = 20;
+        tomato.height = 20;
+        ghost.addChild(tomato);
+        return ghost;
+    }
+
+    private removeMissing(ghosts: Map<string, Container>, seen: Set<string>): void {
+        for (const [id, ghost] of ghosts) {
+            if (!seen.has(id)) {
+                ghost.destroy({ children: true });
+                ghosts.delete(id);
+            }
+        }
+    }
+
+    private clearGhosts(): void {
+        for (const ghost of this.playerGhosts.values()) ghost.destroy({ children: true });
+        for (const ghost of this.projectileGhosts.values()) ghost.destroy({ children: true });
+        this.playerGhosts.clear();
+        this.projectileGhosts.clear();
+    }
+
+    destroy(): void {
+        this.clearGhosts();
+        this.frames = [];
+        super.destroy({ children: true });
+    }
+}
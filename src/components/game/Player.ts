@@ -2,6 +2,12 @@ import { Graphics, Container, Text, TextStyle, Sprite } from 'pixi.js';
 import { Platform } from './Platform';
 import { type PositionVector, type InputVector } from './systems/Vector';
 import { AudioManager } from '../../managers/AudioManager';
+import { SpeechBubble } from './SpeechBubble';
+import { CaptureProgressBar } from './CaptureProgressBar';
+import { PowerUpAura } from './PowerUpAura';
+import { AmmoCounter } from './AmmoCounter';
+import { DEFAULT_PLAYER_COLOR, TEAM_COLORS } from '../../utils/teams';
+import type { PowerUpType, TeamId } from '../../types/network.types';
 
 export interface PendingInput {
   seq: number; 
@@ -25,7 +31,8 @@ export class Player extends Container {
   private serverHealth: number = 100;
   private predictedHealth: number = 100;
 
-  private nonBystanderColor: number = 0x7ED9F8;
+  private nonBystanderColor: number = DEFAULT_PLAYER_COLOR;
+  private team?: TeamId;
 
   private damageFlashTimeout?: NodeJS.Timeout;
   private healthBarContainer: Container;
@@ -34,6 +41,10 @@ export class Player extends Container {
   private body: Graphics;
   private gameBounds: { left: number; right: number; top: number; bottom: number } | null = null;
   private nameText: Text;
+  private speechBubble: SpeechBubble;
+  private captureProgressBar: CaptureProgressBar;
+  private powerUpAura: PowerUpAura;
+  private ammoCounter: AmmoCounter;
   private inputInterval: NodeJS.Timeout | null = null;
   private lastProcessedInputVector: InputVector = { x: 0, y: 0 };
   private tomatoSprite: Sprite | null = null;
@@ -46,6 +57,7 @@ export class Player extends Container {
   private flashInterval?: NodeJS.Timeout;
 
   private isBystander: boolean = true;
+  private predictedDead: boolean = false; // A predicted hit killed us, waiting on the server
   private isOnSurface: boolean = false;
   private canDoubleJump = true;
   private isWalking = false;
@@ -81,6 +93,24 @@ export class Player extends Container {
     this.nameText.style.fontSize = 20; // Set font size
     this.healthBarContainer.addChild(this.nameText);
 
+    this.speechBubble = new SpeechBubble();
+    this.speechBubble.x = this.body.width / 2;
+    this.speechBubble.zIndex = 3000;
+    this.addChild(this.speechBubble);
+
+    // Below the body, the space above is taken by the name tag and health bar
+    this.captureProgressBar = new CaptureProgressBar(this.body.width);
+    this.captureProgressBar.y = this.body.height + 6;
+    this.addChild(this.captureProgressBar);
+
+    this.powerUpAura = new PowerUpAura(this.body.width);
+    this.addChildAt(this.powerUpAura, 0); // Behind the body
+
+    // Right of the body, level with its middle
+    this.ammoCounter = new AmmoCounter();
+    this.ammoCounter.position.set(this.body.width + 6, this.body.height / 2 - 9);
+    this.addChild(this.ammoCounter);
+
 
     // Create health bar background
     this.healthBarBg = new Graphics()
@@ -119,6 +149,49 @@ export class Player extends Container {
   }
 
 
+  /**
+   * Team modes color players by team instead of the free-for-all cyan
+   */
+  public setTeam(team?: TeamId): void {
+    if (this.team === team) return;
+    this.team = team;
+    this.nonBystanderColor = team ? TEAM_COLORS[team] : DEFAULT_PLAYER_COLOR;
+    if (!this.isBystander && !this.isInvulnerable) {
+      this.body.clear();
+      this.body.rect(0, 0, 50, 50).fill(this.nonBystanderColor);
+    }
+  }
+
+  public getTeam(): TeamId | undefined {
+    return this.team;
+  }
+
+  /**
+   * Show a quick chat phrase above the name tag
+   */
+  public showSpeechBubble(text: string): void {
+    this.speechBubble.y = this.nameText.y - this.nameText.height - 4;
+    this.speechBubble.show(text);
+  }
+
+  /**
+   * Progress towards the next king of the hill point, nothing to show outside the hill
+   */
+  public setHillProgress(progress?: number): void {
+    this.captureProgressBar.setProgress(progress);
+  }
+
+  public setPowerUp(type?: PowerUpType): void {
+    this.powerUpAura.setPowerUp(type);
+  }
+
+  /**
+   * Tomatoes left in our basket, hidden without a count
+   */
+  public setAmmo(ammo?: number): void {
+    this.ammoCounter.setAmmo(ammo);
+  }
+
   private makeHealthBarVisible(): void {
     if (this.healthBarContainer) {
       this.healthBarContainer.visible = true;
@@ -170,6 +243,27 @@ export class Player extends Container {
       // Revert to server-authoritative health
       this.predictedHealth = this.serverHealth;
       this.updateHealthBar();
+      this.cancelPredictedDeath();
+  }
+
+  /**
+   * Hide the player as soon as a predicted hit takes them to zero health.
+   * Reverted along with the health prediction if the server never confirms the death.
+   */
+  public predictDeath(): void {
+      if (this.predictedDead) return;
+      this.predictedDead = true;
+      this.visible = false;
+  }
+
+  public cancelPredictedDeath(): void {
+      if (!this.predictedDead) return;
+      this.predictedDead = false;
+      this.visible = true;
+  }
+
+  public isPredictedDead(): boolean {
+      return this.predictedDead;
   }
 
   public getPositionVector(): PositionVector {
@@ -477,6 +571,10 @@ export class Player extends Container {
     this.healthBar.destroy();
     this.nameText.destroy();
     this.healthBarContainer.destroy();
+    this.speechBubble.destroy();
+    this.captureProgressBar.destroy();
+    this.powerUpAura.destroy();
+    this.ammoCounter.destroy();
 
 
     // Call parent destroy method
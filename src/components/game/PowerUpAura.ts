@@ -0,0 +1,33 @@
+import { Graphics } from 'pixi.js';
+import type { PowerUpType } from '../../types/network.types';
+import { POWER_UPS } from '../../utils/powerUps';
+
+/**
+ * Glow around a player's body while they hold a power-up, so everyone can see it coming
+ */
+export class PowerUpAura extends Graphics {
+    private type: PowerUpType | null = null;
+    private bodySize: number;
+
+    constructor(bodySize: number) {
+        super();
+        this.bodySize = bodySize;
+        this.visible = false;
+    }
+
+    public setPowerUp(type?: PowerUpType): void {
+        const next = type ?? null;
+        if (next === this.type) return;
+        this.type = next;
+        this.clear();
+        this.visible = next !== null;
+        if (!next) return;
+
+        const { color } = POWER_UPS[next];
+        // Fat Love makes you a lot bigger, at least in spirit
+        const padding = 10;
+        this.roundRect(-padding, -padding, this.bodySize + padding * 2, this.bodySize + padding * 2, 12)
+            .fill({ color, alpha: 0.25 })
+            .stroke({ color, width: 3, alpha: 0.9 });
+    }
+}
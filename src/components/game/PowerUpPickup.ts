@@ -0,0 +1,50 @@
+import { Container, Graphics, Text } from 'pixi.js';
+import type { PowerUpType } from '../../types/network.types';
+import { POWER_UPS } from '../../utils/powerUps';
+
+/**
+ * A power-up waiting on its spawn point. Positioned by its bottom center, floats up and down.
+ */
+export class PowerUpPickup extends Container {
+    private readonly RADIUS = 22;
+    private readonly FLOAT_HEIGHT = 8;
+    private baseY: number = 0;
+
+    constructor(type: PowerUpType) {
+        super();
+        const definition = POWER_UPS[type];
+
+        const orb = new Graphics()
+            .circle(0, -this.RADIUS, this.RADIUS)
+            .fill({ color: definition.color, alpha: 0.9 })
+            .stroke({ color: 0xffffff, width: 3 });
+        this.addChild(orb);
+
+        const icon = new Text({
+            text: definition.icon,
+            style: {
+                fontFamily: 'Pixel',
+                fontSize: 18,
+                fill: 0xffffff,
+            }
+        });
+        icon.anchor.set(0.5);
+        icon.y = -this.RADIUS;
+        this.addChild(icon);
+
+        this.zIndex = 2500; // Above players, below projectiles
+    }
+
+    public setPosition(x: number, y: number): void {
+        this.x = x;
+        this.baseY = y;
+    }
+
+    public update(): void {
+        this.y = this.baseY - this.FLOAT_HEIGHT * (1 + Math.sin(performance.now() / 250)) / 2;
+    }
+
+    destroy(): void {
+        super.destroy({ children: true });
+    }
+}
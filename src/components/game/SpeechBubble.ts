@@ -0,0 +1,67 @@
+import { Container, Graphics, Text, TextStyle } from 'pixi.js';
+
+/**
+ * Speech bubble that floats above a player's name tag. Position it at the spot the
+ * bubble's tail should point to, it grows upwards from there.
+ */
+export class SpeechBubble extends Container {
+    private readonly DISPLAY_MS = 3000;
+    private readonly PADDING = 6;
+    private readonly TAIL_SIZE = 6;
+    private background: Graphics;
+    private text: Text;
+    private hideTimeout?: NodeJS.Timeout;
+
+    constructor() {
+        super();
+        this.background = new Graphics();
+        this.addChild(this.background);
+
+        this.text = new Text({
+            text: '',
+            style: new TextStyle({
+                fontFamily: 'Arial',
+                fontSize: 14,
+                fill: 0x000000,
+                align: 'center'
+            })
+        });
+        this.text.anchor.set(0.5, 1);
+        this.addChild(this.text);
+
+        this.visible = false;
+    }
+
+    public show(message: string): void {
+        this.text.text = message;
+        this.text.y = -this.TAIL_SIZE - this.PADDING;
+
+        const width = this.text.width + this.PADDING * 2;
+        const height = this.text.height + this.PADDING * 2;
+        this.background.clear();
+        this.background
+            .roundRect(-width / 2, -this.TAIL_SIZE - height, width, height, 6)
+            .fill({ color: 0xffffff, alpha: 0.9 });
+        this.background
+            .poly([-this.TAIL_SIZE, -this.TAIL_SIZE, this.TAIL_SIZE, -this.TAIL_SIZE, 0, 0])
+            .fill({ color: 0xffffff, alpha: 0.9 });
+
+        this.visible = true;
+
+        if (this.hideTimeout) {
+            clearTimeout(this.hideTimeout);
+        }
+        this.hideTimeout = setTimeout(() => {
+            this.visible = false;
+            this.hideTimeout = undefined;
+        }, this.DISPLAY_MS);
+    }
+
+    destroy(): void {
+        if (this.hideTimeout) {
+            clearTimeout(this.hideTimeout);
+            this.hideTimeout = undefined;
+        }
+        super.destroy({ children: true });
+    }
+}
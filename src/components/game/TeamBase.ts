@@ -0,0 +1,55 @@
+import { Container, Graphics, Text } from 'pixi.js';
+import type { BaseZone, TeamId } from '../../types/network.types';
+import { TEAM_COLORS, TEAM_LABELS } from '../../utils/teams';
+
+/**
+ * Tinted area a team brings the basket back to in capture the basket
+ */
+export class TeamBase extends Container {
+    private zone: BaseZone;
+
+    constructor(zone: BaseZone) {
+        super();
+        this.zone = zone;
+        const width = zone.right - zone.left;
+        const height = zone.bottom - zone.top;
+        const color = TEAM_COLORS[zone.team];
+
+        const area = new Graphics()
+            .rect(0, 0, width, height)
+            .fill({ color, alpha: 0.15 })
+            .rect(0, 0, width, 6)
+            .fill({ color, alpha: 0.8 });
+        this.addChild(area);
+
+        const label = new Text({
+            text: `${TEAM_LABELS[zone.team]} BASE`,
+            style: {
+                fontFamily: 'Pixel',
+                fontSize: 28,
+                fill: color,
+            }
+        });
+        label.anchor.set(0.5, 0);
+        label.position.set(width / 2, 20);
+        this.addChild(label);
+
+        this.position.set(zone.left, zone.top);
+        this.zIndex = 1; // Behind everything that moves
+    }
+
+    public getTeam(): TeamId {
+        return this.zone.team;
+    }
+
+    public getCenter(): { x: number, y: number } {
+        return {
+            x: (this.zone.left + this.zone.right) / 2,
+            y: (this.zone.top + this.zone.bottom) / 2,
+        };
+    }
+
+    destroy(): void {
+        super.destroy({ children: true });
+    }
+}
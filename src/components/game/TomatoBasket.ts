@@ -0,0 +1,44 @@
+import { Container, Sprite } from 'pixi.js';
+
+/**
+ * The basket in capture the basket. Positioned by its bottom center like the players,
+ * either where it lies or floating above whoever carries it.
+ */
+export class TomatoBasket extends Container {
+    private readonly CARRY_HEIGHT = 95; // Clears the carrier's name tag
+    private readonly BOB_HEIGHT = 6;
+    private sprite: Sprite;
+
+    constructor() {
+        super();
+        this.sprite = Sprite.from('tomatoBasket');
+        this.sprite.anchor.set(0.5, 1);
+        this.sprite.scale.set(0.6);
+        this.addChild(this.sprite);
+        this.zIndex = 2500; // Above players, below projectiles
+    }
+
+    /**
+     * Lying in the arena, bobs a little so it stands out from the scenery
+     */
+    public placeAt(x: number, y: number): void {
+        this.x = x;
+        this.y = y - this.BOB_HEIGHT * Math.abs(Math.sin(performance.now() / 300));
+    }
+
+    /**
+     * Held above a carrier standing at x, y
+     */
+    public carryAbove(x: number, y: number): void {
+        this.x = x;
+        this.y = y - this.CARRY_HEIGHT;
+    }
+
+    getBounds() {
+        return this.sprite.getBounds();
+    }
+
+    destroy(): void {
+        super.destroy({ children: true });
+    }
+}
@@ -12,6 +12,8 @@ const keyMap: Record<string, keyof Controller['keys']> = {
   ArrowRight: 'right',
 };
 
+// Custom handlers return true to claim the event, the game then ignores it (e.g. while typing in chat)
+export type CustomInputHandler<E extends Event> = (event: E) => boolean | void;
 
 export type ControllerState = {
   keys: Record<string, boolean>;
@@ -48,9 +50,10 @@ export class Controller {
   private boundKeyUp!: (event: KeyboardEvent) => void;
   private boundMouseDown!: (event: MouseEvent) => void;
   private boundMouseUp!: (event: MouseEvent) => void;
-  private customKeyHandler?: (event: KeyboardEvent) => void;
-  private customKeyUpHandler?: (event: KeyboardEvent) => void;
-  private customMouseUpHandler?: (event: MouseEvent) => void;
+  private customKeyHandler?: CustomInputHandler<KeyboardEvent>;
+  private customKeyUpHandler?: CustomInputHandler<KeyboardEvent>;
+  private customMouseDownHandler?: CustomInputHandler<MouseEvent>;
+  private customMouseUpHandler?: CustomInputHandler<MouseEvent>;
 
   constructor() {
     try {
@@ -109,7 +112,7 @@ export class Controller {
 
 
 
-  public setCustomKeyDownHandler(handler: (event: KeyboardEvent) => void): void {
+  public setCustomKeyDownHandler(handler: CustomInputHandler<KeyboardEvent>): void {
     try {
       if (typeof handler !== 'function') {
         throw new Error('Handler must be a function');
@@ -124,7 +127,7 @@ export class Controller {
     }
   }
   
-  public setCustomKeyUpHandler(handler: (event: KeyboardEvent) => void): void {
+  public setCustomKeyUpHandler(handler: CustomInputHandler<KeyboardEvent>): void {
     try {
       if (typeof handler !== 'function') {
         throw new Error('Handler must be a function');
@@ -139,7 +142,22 @@ export class Controller {
     }
   }
   
-  public setCustomMouseUpHandler(handler: (event: MouseEvent) => void): void {
+  public setCustomMouseDownHandler(handler: CustomInputHandler<MouseEvent>): void {
+    try {
+      if (typeof handler !== 'function') {
+        throw new Error('Handler must be a function');
+      }
+      this.customMouseDownHandler = handler;
+    } catch (error) {
+      ErrorHandler.getInstance().handleError(
+        error as Error,
+        ErrorType.VALIDATION,
+        { phase: 'setCustomMouseDownHandler' }
+      );
+    }
+  }
+
+  public setCustomMouseUpHandler(handler: CustomInputHandler<MouseEvent>): void {
     try {
       if (typeof handler !== 'function') {
         throw new Error('Handler must be a function');
@@ -251,7 +269,9 @@ export class Controller {
       // Note: This needs to happen after the state is updated.
       if (this.customKeyHandler) {
         try {
-          this.customKeyHandler(event);
+          if (this.customKeyHandler(event) === true) {
+            state.pressed = false; // Claimed, the game never sees it
+          }
         } catch (customError) {
           ErrorHandler.getInstance().handleError(
             customError as Error,
@@ -277,7 +297,7 @@ export class Controller {
       // Call custom key up handler if defined
       if (this.customKeyUpHandler) {
         try {
-          this.customKeyUpHandler(event);
+          if (this.customKeyUpHandler(event) === true) return;
         } catch (customError) {
           ErrorHandler.getInstance().handleError(
             customError as Error,
@@ -302,6 +322,19 @@ export class Controller {
     try {
       // Check if it's a left click (main button)
       if (event.button !== 0) return;
+
+      // Call custom mouse down handler if defined
+      if (this.customMouseDownHandler) {
+        try {
+          if (this.customMouseDownHandler(event) === true) return;
+        } catch (customError) {
+          ErrorHandler.getInstance().handleError(
+            customError as Error,
+            ErrorType.VALIDATION,
+            { phase: 'customMouseDownHandler', button: event.button }
+          );
+        }
+      }
       this.mouse.pressed = true;
       this.mouse.x = event.clientX;
       this.mouse.y = event.clientY;
@@ -321,7 +354,7 @@ export class Controller {
       // Call custom mouse up handler if defined
       if (this.customMouseUpHandler) {
         try {
-          this.customMouseUpHandler(event);
+          if (this.customMouseUpHandler(event) === true) return;
         } catch (customError) {
           ErrorHandler.getInstance().handleError(
             customError as Error,
@@ -430,6 +463,7 @@ export class Controller {
       // Clear custom handlers
       this.customKeyHandler = undefined;
       this.customKeyUpHandler = undefined;
+      this.customMouseDownHandler = undefined;
       this.customMouseUpHandler = undefined;
 
     } catch (error) {
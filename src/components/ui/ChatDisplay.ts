@@ -0,0 +1,128 @@
+import { Container, Graphics, Text, TextStyle } from 'pixi.js';
+
+export type ChatLineKind = 'player' | 'self' | 'system';
+
+interface ChatLine {
+    text: Text;
+    addedAt: number;
+}
+
+const LINE_COLORS: Record<ChatLineKind, string> = {
+    player: '#FFFFFF',
+    self: '#FFFF00', // Same highlight the scoreboard uses for self
+    system: '#AAAAAA',
+};
+
+export class ChatDisplay extends Container {
+    private readonly MAX_LINES = 8;
+    private readonly LINE_HEIGHT = 20;
+    private readonly WIDTH = 420;
+    private readonly VISIBLE_MS = 10000; // Lines fade out after this unless chat is open
+    private readonly FADE_MS = 1000;
+    private lines: ChatLine[] = [];
+    private background: Graphics;
+    private lineContainer: Container;
+    private expanded: boolean = false;
+    private largestWidth: number = 1920; // make dynamic;
+
+    constructor() {
+        super();
+        this.background = new Graphics()
+            .rect(0, 0, this.WIDTH, this.MAX_LINES * this.LINE_HEIGHT + 10)
+            .fill({
+                color: 0x000000,
+                alpha: 0.4
+            });
+        this.background.visible = false;
+        this.addChild(this.background);
+
+        this.lineContainer = new Container();
+        this.addChild(this.lineContainer);
+
+        this.fixDisplayPosition();
+    }
+
+    public addMessage(message: string, kind: ChatLineKind): void {
+        const text = new Text({
+            text: message,
+            style: new TextStyle({
+                fontFamily: 'Arial',
+                fontSize: 14,
+                fill: LINE_COLORS[kind],
+                fontStyle: kind === 'system' ? 'italic' : 'normal',
+                stroke: { color: '#000000', width: 3 },
+                wordWrap: true,
+                wordWrapWidth: this.WIDTH - 20,
+            })
+        });
+        text.x = 10;
+        this.lineContainer.addChild(text);
+        this.lines.push({ text, addedAt: performance.now() });
+
+        if (this.lines.length > this.MAX_LINES) {
+            const removed = this.lines.shift();
+            if (removed) {
+                this.lineContainer.removeChild(removed.text);
+                removed.text.destroy();
+            }
+        }
+        this.layoutLines();
+    }
+
+    /**
+     * Show the full history with a background while the chat input is open
+     */
+    public setExpanded(expanded: boolean): void {
+        this.expanded = expanded;
+        this.background.visible = expanded;
+        this.update();
+    }
+
+    /**
+     * Fade out old lines, call every frame
+     */
+    public update(): void {
+        const now = performance.now();
+        for (const line of this.lines) {
+            if (this.expanded) {
+                line.text.alpha = 1;
+                continue;
+            }
+            const age = now - line.addedAt;
+            line.text.alpha = Math.max(0, Math.min(1, (this.VISIBLE_MS + this.FADE_MS - age) / this.FADE_MS));
+        }
+    }
+
+    private layoutLines(): void {
+        // Newest line at the bottom, wrapped lines push older ones up
+        let bottom = this.MAX_LINES * this.LINE_HEIGHT + 5;
+        for (let i = this.lines.length - 1; i >= 0; i--) {
+            const text = this.lines[i].text;
+            bottom -= text.height;
+            text.y = bottom;
+            text.visible = bottom >= 0;
+        }
+    }
+
+    public fixDisplayPosition(): void {
+        // Bottom left corner with slight margin
+        const windowWidth = window.innerWidth;
+        const largestWidth = this.largestWidth;
+
+        const offset = -(windowWidth - largestWidth) / 2;
+        this.x = offset < 0 ? 50 : 50 + offset;
+        this.y = 750;
+    }
+
+    public clear(): void {
+        for (const line of this.lines) {
+            line.text.destroy();
+        }
+        this.lines = [];
+    }
+
+    destroy(): void {
+        this.clear();
+        super.destroy({ children: true });
+    }
+}
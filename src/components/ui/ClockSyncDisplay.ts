@@ -0,0 +1,66 @@
+import { Container, Text, Graphics } from 'pixi.js';
+import type { ClockSyncStats } from '../../utils/ClockSync';
+
+export class ClockSyncDisplay extends Container {
+    private clockText: Text | undefined;
+    private background: Graphics | undefined;
+    private largestWidth: number = 1920; // make dynamic;
+
+    constructor() {
+        super();
+        this.background = new Graphics()
+            .rect(0, 0, 170, 62)
+            .fill({
+                color: 0x000000,
+                alpha: 0.5
+            });
+
+        this.addChild(this.background);
+
+        this.clockText = new Text({
+            text: 'Clock: --',
+            style: {
+                fontFamily: 'Arial',
+                fontSize: 12,
+                fill: 0xffffff,
+                lineHeight: 17
+            }
+        });
+
+        this.clockText.position.set(5, 5);
+        this.addChild(this.clockText);
+
+        this.fixPosition();
+    }
+
+    public updateStats(stats: ClockSyncStats): void {
+        if (!this.clockText) return;
+        // Green once we trust the offset, red while it is still a guess
+        let color = 0x00ff00;
+        if (stats.confidence < 0.7) color = 0xffff00;
+        if (stats.confidence < 0.3) color = 0xff0000;
+
+        const uncertainty = Number.isFinite(stats.uncertainty) ? `±${stats.uncertainty.toFixed(1)}` : '±--';
+        this.clockText.text = [
+            `Offset: ${stats.offset.toFixed(1)}ms ${uncertainty}`,
+            `Conf: ${Math.round(stats.confidence * 100)}%  Drift: ${stats.driftMsPerSec.toFixed(2)}ms/s`,
+            `Samples: ${stats.samples} (${stats.rejected} rejected)`,
+        ].join('\n');
+        this.clockText.style.fill = color;
+    }
+
+    public fixPosition(): void {
+        // Below the ping display in the top left corner
+        const windowWidth = window.innerWidth;
+        const largestWidth = this.largestWidth;
+        const offset = -(windowWidth - largestWidth) / 2;
+        this.x = offset < 0 ? 50 : 50 + offset;
+        this.y = 285;
+    }
+
+    destroy(): void {
+        super.destroy();
+        if (this.clockText) this.clockText.destroy();
+        if (this.background) this.background.destroy();
+    }
+}
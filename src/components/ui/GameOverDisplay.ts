@@ -1,12 +1,42 @@
 import { Container, Text, TextStyle, Graphics } from 'pixi.js';
+import type { TeamId } from '../../types/network.types';
+import { getRankingScore } from '../../utils/gameModes';
+import { TEAMS, TEAM_LABELS } from '../../utils/teams';
 
 type PlayerScore = {
     playerId: string;
     name: string;
     kills: number;
     deaths: number;
+    team?: TeamId;
+    captures?: number;
+    points?: number;
 }
 
+/**
+ * Score per team (captures in capture the basket, kills otherwise) and the team with the most,
+ * null in free-for-all
+ */
+const getTeamResult = (scores: PlayerScore[]): { winner: TeamId | null, totals: Record<TeamId, number> } | null => {
+    if (!scores.some(score => score.team)) return null;
+
+    const totals: Record<TeamId, number> = { red: 0, blue: 0 };
+    for (const score of scores) {
+        if (score.team) totals[score.team] += getRankingScore(score);
+    }
+    const [first, second] = [...TEAMS].sort((a, b) => totals[b] - totals[a]);
+    return { winner: totals[first] > totals[second] ? first : null, totals };
+};
+
+/**
+ * ", 2 captures" or ", 40 points" in the objective modes, nothing otherwise
+ */
+const getObjectiveText = (score: PlayerScore): string => {
+    if (score.captures !== undefined) return `, ${score.captures} captures`;
+    if (score.points !== undefined) return `, ${score.points} points`;
+    return '';
+};
+
 export class GameOverDisplay extends Container {
 
     private timerId: NodeJS.Timeout | null = null;
@@ -51,10 +81,18 @@ export class GameOverDisplay extends Container {
             align: 'center'
         });
 
-        // Winner display
+        // Winner display, the winning team in team modes
         const winner = scores[0];
+        const teamResult = getTeamResult(scores);
+        let winnerMessage = `${winner.playerId === selfId ? 'YOU' : 'Player ' + winner.name} WON!\n${winner.points !== undefined ? `Points: ${winner.points}  ` : ''}Kills: ${winner.kills}  Deaths: ${winner.deaths}`;
+        if (teamResult) {
+            const tally = TEAMS.map(team => `${TEAM_LABELS[team]} ${teamResult.totals[team]}`).join(' - ');
+            winnerMessage = teamResult.winner
+                ? `${TEAM_LABELS[teamResult.winner]} TEAM WON!\n${tally}`
+                : `DRAW!\n${tally}`;
+        }
         const winnerText = new Text({
-            text: `${winner.playerId === selfId ? 'YOU' : 'Player ' + winner.name} WON!\nKills: ${winner.kills}  Deaths: ${winner.deaths}`,
+            text: winnerMessage,
             style: winnerStyle
         });
         winnerText.anchor.set(0.5);
@@ -63,7 +101,7 @@ export class GameOverDisplay extends Container {
         // Other players scores
         scores.forEach((score, index) => {
             const scoreText = new Text({
-                text: `${score.name}: ${score.kills} kills, ${score.deaths} deaths`,
+                text: `${score.team ? `[${TEAM_LABELS[score.team]}] ` : ''}${score.name}: ${score.kills} kills, ${score.deaths} deaths${getObjectiveText(score)}`,
                 style: scoreStyle
             });
             scoreText.anchor.set(0.5);
@@ -0,0 +1,53 @@
+import { Container, Text, Graphics } from 'pixi.js';
+
+export class KillCamBanner extends Container {
+    private titleText: Text;
+    private background: Graphics;
+    private largestWidth: number = 1920; // make dynamic;
+
+    constructor() {
+        super();
+        this.background = new Graphics()
+            .rect(0, 0, 400, 50)
+            .fill({
+                color: 0x000000,
+                alpha: 0.6
+            });
+        this.addChild(this.background);
+
+        this.titleText = new Text({
+            text: 'KILLCAM',
+            style: {
+                fontFamily: 'Pixel',
+                fontSize: 24,
+                fill: 0xffffff,
+                align: 'center'
+            }
+        });
+        this.titleText.anchor.set(0.5);
+        this.titleText.position.set(200, 25);
+        this.addChild(this.titleText);
+
+        this.visible = false;
+        this.fixPosition();
+    }
+
+    public show(killerName: string | null): void {
+        this.titleText.text = killerName ? `KILLCAM - Killed by ${killerName}` : 'KILLCAM';
+        this.visible = true;
+    }
+
+    public hide(): void {
+        this.visible = false;
+    }
+
+    public fixPosition(): void {
+        // Top center, the visible area is always centered on the game width
+        this.x = this.largestWidth / 2 - this.background.width / 2;
+        this.y = 60;
+    }
+
+    destroy(): void {
+        super.destroy({ children: true });
+    }
+}
@@ -1,10 +1,22 @@
 import l3l3 from '../../images/l3l3.png';
+import { SettingsManager } from '../../managers/SettingsManager';
+import { ReplayManager, type ReplayFile } from '../../managers/ReplayManager';
+import { ModalManager } from './Modal';
+import { config } from '../../utils/config';
+import { REGIONS, REGION_LABELS, getBestRegion, probeRegions, type Region } from '../../utils/regions';
+import { clearInviteCodeFromPage, getInviteCodeFromPage, parseInviteCode } from '../../utils/inviteCode';
+import type { LobbyRequest } from '../../types/network.types';
 
 
-type Region = 'NA' | 'EU' | 'ASIA' | 'GLOBAL';;
+export interface LoginResult {
+    name: string;
+    region: Region;
+    spectate: boolean; // watch the match without a player body
+    replay?: ReplayFile; // play back a recorded match instead of connecting
+    lobby?: LobbyRequest; // private lobby instead of the public queue
+}
 
-
-export const loginScreen = () => new Promise<{ name: string, region: Region }>((resolve) => {
+export const loginScreen = () => new Promise<LoginResult>((resolve) => {
     // Create modal container with dark overlay
     const modalContainer = document.createElement('div');
     modalContainer.style.cssText = `
@@ -120,34 +132,69 @@ export const loginScreen = () => new Promise<{ name: string, region: Region }>((
     regionSelect.appendChild(placeholderOption);
 
     // Add region options
-    const regions: Region[] = ['NA', 'EU', 'ASIA', 'GLOBAL'];
-    regions.forEach(region => {
+    const regionOptions = new Map<Region, HTMLOptionElement>();
+    REGIONS.forEach(region => {
         const option = document.createElement('option');
         option.style.fontFamily = 'Pixel, sans-serif';
         option.value = region;
-        option.textContent = region === 'NA' ? 'North America' : 
-                             region === 'EU' ? 'Europe' : 
-                             region === 'ASIA' ? 'Asia' :
-                              'Global';
+        option.textContent = REGION_LABELS[region];
         regionSelect.appendChild(option);
+        regionOptions.set(region, option);
+    });
+
+    // Start with the previously selected region
+    const settingsManager = SettingsManager.getInstance();
+    regionSelect.value = settingsManager.getRegion();
+    placeholderOption.selected = false;
+
+    // Measure latency to each region with its own endpoint, show it next to the option and
+    // preselect a clearly faster one unless the player already picked one themselves
+    let regionChosenByPlayer = false;
+    regionSelect.addEventListener('change', () => {
+        regionChosenByPlayer = true;
     });
 
-    // Try to load previously selected region from localStorage
-    try {
-        const savedSettings = localStorage.getItem('gameSettings');
-        if (savedSettings) {
-            const settings = JSON.parse(savedSettings);
-            if (settings.region && regions.includes(settings.region)) {
-                regionSelect.value = settings.region;
-                placeholderOption.selected = false;
-            }
+    const probeUrls = config.USE_LOCAL_SERVER ? {} : config.REGION_PROBE_URLS;
+    for (const region of REGIONS) {
+        if (probeUrls[region]) {
+            regionOptions.get(region)!.textContent = `${REGION_LABELS[region]} (...)`;
         }
-    } catch (e) {
-        console.error('Error loading saved region', e);
     }
 
+    probeRegions(probeUrls, (region, latency) => {
+        const option = regionOptions.get(region);
+        if (option) {
+            option.textContent = `${REGION_LABELS[region]} (${latency === null ? 'unreachable' : `${latency}ms`})`;
+        }
+    }).then((latencies) => {
+        const bestRegion = getBestRegion(latencies, settingsManager.getRegion());
+        if (bestRegion && !regionChosenByPlayer && document.body.contains(modalContainer)) {
+            regionSelect.value = bestRegion;
+            checkFormValidity();
+        }
+    }).catch((e) => {
+        console.error('Error probing regions', e);
+    });
+
     modal.appendChild(regionSelect);
 
+    // Invite code or link for a friend's private match, prefilled from ?match= links
+    const inviteInput = document.createElement('input');
+    inviteInput.type = 'text';
+    inviteInput.placeholder = 'Invite code (optional)';
+    inviteInput.style.cssText = input.style.cssText;
+    inviteInput.style.fontSize = '18px';
+    inviteInput.style.marginBottom = '20px';
+    inviteInput.value = getInviteCodeFromPage() ?? '';
+    inviteInput.addEventListener('focus', () => {
+        inviteInput.style.background = '#303030';
+    });
+    inviteInput.addEventListener('blur', () => {
+        inviteInput.style.background = '#252525';
+    });
+    regionSelect.style.marginBottom = '12px';
+    modal.appendChild(inviteInput);
+
     // Create button
     const button = document.createElement('button');
     button.textContent = 'Enter';
@@ -183,12 +230,70 @@ export const loginScreen = () => new Promise<{ name: string, region: Region }>((
         }
     });
 
+    // Secondary action, spectators only need a region
+    const spectateButton = document.createElement('button');
+    spectateButton.textContent = 'Spectate';
+    spectateButton.style.cssText = `
+        width: fit-content;
+        padding: 6px 12px;
+        font-size: 18px;
+        border: none;
+        background: transparent;
+        color: #aaa;
+        cursor: pointer;
+        transition: all 0.2s ease;
+        align-self: center;
+        margin-top: 8px;
+        font-family: 'Pixel', sans-serif;
+    `;
+    spectateButton.addEventListener('mouseover', () => {
+        if (!spectateButton.disabled) {
+            spectateButton.style.color = '#d2758e';
+        }
+    });
+    spectateButton.addEventListener('mouseout', () => {
+        spectateButton.style.color = '#aaa';
+    });
+
+    const createLobbyButton = document.createElement('button');
+    createLobbyButton.textContent = 'Create Private Match';
+    createLobbyButton.style.cssText = spectateButton.style.cssText;
+    createLobbyButton.style.marginTop = '0';
+    createLobbyButton.addEventListener('mouseover', () => {
+        if (!createLobbyButton.disabled) {
+            createLobbyButton.style.color = '#d2758e';
+        }
+    });
+    createLobbyButton.addEventListener('mouseout', () => {
+        createLobbyButton.style.color = '#aaa';
+    });
+
+    // Replays don't need a name or region, they never connect
+    const replayButton = document.createElement('button');
+    replayButton.textContent = 'Watch Replay';
+    replayButton.style.cssText = spectateButton.style.cssText;
+    replayButton.style.marginTop = '0';
+    replayButton.addEventListener('mouseover', () => {
+        replayButton.style.color = '#d2758e';
+    });
+    replayButton.addEventListener('mouseout', () => {
+        replayButton.style.color = '#aaa';
+    });
+
+    const replayInput = document.createElement('input');
+    replayInput.type = 'file';
+    replayInput.accept = '.gz,.json';
+    replayInput.style.display = 'none';
+
     // Add input validation
     const checkFormValidity = () => {
         const name = input.value.trim();
         const region = regionSelect.value;
-        const isValid = name.length >= 3 && region !== '';
-        
+        const hasInvite = inviteInput.value.trim() !== '';
+        const inviteCode = parseInviteCode(inviteInput.value);
+        const isValid = name.length >= 3 && region !== '' && (!hasInvite || inviteCode !== null);
+
+        button.textContent = inviteCode ? 'Join Lobby' : 'Enter';
         button.disabled = !isValid;
         if (isValid) {
             button.style.opacity = '1';
@@ -197,43 +302,102 @@ export const loginScreen = () => new Promise<{ name: string, region: Region }>((
             button.style.opacity = '0.6';
             button.style.pointerEvents = 'none';
         }
+
+        spectateButton.disabled = region === '';
+        spectateButton.style.opacity = spectateButton.disabled ? '0.6' : '1';
+        spectateButton.style.pointerEvents = spectateButton.disabled ? 'none' : 'auto';
+
+        createLobbyButton.disabled = name.length < 3 || region === '';
+        createLobbyButton.style.opacity = createLobbyButton.disabled ? '0.6' : '1';
+        createLobbyButton.style.pointerEvents = createLobbyButton.disabled ? 'none' : 'auto';
     };
 
     input.addEventListener('input', checkFormValidity);
     regionSelect.addEventListener('change', checkFormValidity);
+    inviteInput.addEventListener('input', checkFormValidity);
     checkFormValidity(); // Initial check
 
+    const close = (result: LoginResult) => {
+        settingsManager.setRegion(result.region);
+        clearInviteCodeFromPage();
+
+        // Add fade out animation
+        modalContainer.style.transition = 'opacity 0.3s ease';
+        modalContainer.style.opacity = '0';
+
+        setTimeout(() => {
+            document.body.removeChild(modalContainer);
+            resolve(result);
+        }, 300);
+    };
+
     // Handle form submission
     const handleSubmit = () => {
         const name = input.value.trim();
         const selectedRegion = regionSelect.value as Region;
         
+        const inviteCode = parseInviteCode(inviteInput.value);
+
         if (name.length >= 3 && selectedRegion) {
-            // Save the region selection to localStorage
-            try {
-                const savedSettings = localStorage.getItem('gameSettings');
-                let settings = savedSettings ? JSON.parse(savedSettings) : {};
-                settings.region = selectedRegion;
-                localStorage.setItem('gameSettings', JSON.stringify(settings));
-            } catch (e) {
-                console.error('Error saving region', e);
-            }
-            
-            // Add fade out animation
-            modalContainer.style.transition = 'opacity 0.3s ease';
-            modalContainer.style.opacity = '0';
-            
-            setTimeout(() => {
-                document.body.removeChild(modalContainer);
-                resolve({ name, region: selectedRegion });
-            }, 300);
+            close({
+                name,
+                region: selectedRegion,
+                spectate: false,
+                lobby: inviteCode ? { action: 'join', code: inviteCode } : undefined,
+            });
+        }
+    };
+
+    const handleCreateLobby = () => {
+        const name = input.value.trim();
+        const selectedRegion = regionSelect.value as Region;
+
+        if (name.length >= 3 && selectedRegion) {
+            close({ name, region: selectedRegion, spectate: false, lobby: { action: 'create' } });
+        }
+    };
+
+    const handleSpectate = () => {
+        const name = input.value.trim();
+        const selectedRegion = regionSelect.value as Region;
+
+        if (selectedRegion) {
+            close({ name: name.length >= 3 ? name : 'Spectator', region: selectedRegion, spectate: true });
+        }
+    };
+
+    const handleReplayFile = async () => {
+        const file = replayInput.files?.[0];
+        replayInput.value = ''; // allow picking the same file again after an error
+        if (!file) return;
+
+        try {
+            const replay = await ReplayManager.getInstance().loadReplayFile(file);
+            close({ name: replay.playerName, region: settingsManager.getRegion(), spectate: true, replay });
+        } catch (error) {
+            console.error('Error loading replay', error);
+            ModalManager.getInstance().showModal({
+                title: "Invalid Replay",
+                message: "That file couldn't be read as a replay.",
+                button: {
+                    text: "OK",
+                    closeOnClick: true
+                }
+            });
         }
     };
 
     button.addEventListener('click', handleSubmit);
+    spectateButton.addEventListener('click', handleSpectate);
+    createLobbyButton.addEventListener('click', handleCreateLobby);
+    replayButton.addEventListener('click', () => replayInput.click());
+    replayInput.addEventListener('change', handleReplayFile);
     input.addEventListener('keypress', (e) => {
         if (e.key === 'Enter' && !button.disabled) handleSubmit();
     });
+    inviteInput.addEventListener('keypress', (e) => {
+        if (e.key === 'Enter' && !button.disabled) handleSubmit();
+    });
 
     // Add minimal version text
     const versionInfo = document.createElement('div');
@@ -246,6 +410,10 @@ export const loginScreen = () => new Promise<{ name: string, region: Region }>((
         opacity: 0.7;
     `;
     modal.appendChild(button);
+    modal.appendChild(spectateButton);
+    modal.appendChild(createLobbyButton);
+    modal.appendChild(replayButton);
+    modal.appendChild(replayInput);
     modal.appendChild(versionInfo);
     
     modalContainer.appendChild(modal);
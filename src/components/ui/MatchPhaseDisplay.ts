@@ -0,0 +1,111 @@
+import { Container, Text, TextStyle } from 'pixi.js';
+
+type DisplayMode = 'hidden' | 'waiting' | 'countdown' | 'fight';
+
+/**
+ * Center screen text for the pre-match phases: who we're waiting for, the 3-2-1 and "FIGHT!"
+ */
+export class MatchPhaseDisplay extends Container {
+    private readonly FIGHT_VISIBLE_MS = 1000;
+    private headlineText: Text;
+    private subtitleText: Text;
+    private mode: DisplayMode = 'hidden';
+    private countdownEndsAt: number = 0;
+    private fightShownAt: number = 0;
+    private largestWidth: number = 1920; // make dynamic;
+
+    constructor() {
+        super();
+        this.headlineText = new Text({
+            text: '',
+            style: new TextStyle({
+                fontFamily: 'Pixel',
+                fontSize: 120,
+                fill: '#ffffff',
+                stroke: { color: '#000000', width: 8 },
+                align: 'center'
+            })
+        });
+        this.headlineText.anchor.set(0.5);
+        this.addChild(this.headlineText);
+
+        this.subtitleText = new Text({
+            text: '',
+            style: new TextStyle({
+                fontFamily: 'Pixel',
+                fontSize: 28,
+                fill: '#ffffff',
+                stroke: { color: '#000000', width: 4 },
+                align: 'center'
+            })
+        });
+        this.subtitleText.anchor.set(0.5, 0);
+        this.subtitleText.y = 80;
+        this.addChild(this.subtitleText);
+
+        this.visible = false;
+        this.fixPosition();
+    }
+
+    public showWaiting(playerCount: number, minPlayers: number): void {
+        this.mode = 'waiting';
+        this.headlineText.text = '';
+        this.subtitleText.text = `Waiting for players (${playerCount}/${minPlayers})`;
+        this.alpha = 1;
+        this.visible = true;
+    }
+
+    /**
+     * Count down to a server time, update() keeps the number current
+     */
+    public showCountdown(endsAt: number, serverTime: number): void {
+        this.mode = 'countdown';
+        this.countdownEndsAt = endsAt;
+        this.subtitleText.text = 'Get ready!';
+        this.visible = true;
+        this.update(serverTime);
+    }
+
+    public showFight(): void {
+        this.mode = 'fight';
+        this.fightShownAt = performance.now();
+        this.headlineText.text = 'FIGHT!';
+        this.subtitleText.text = '';
+        this.alpha = 1;
+        this.visible = true;
+    }
+
+    public hide(): void {
+        this.mode = 'hidden';
+        this.visible = false;
+    }
+
+    /**
+     * Tick the countdown and fade out "FIGHT!", call every frame
+     */
+    public update(serverTime: number): void {
+        if (this.mode === 'countdown') {
+            // Hold at 1 until the server says the match is live
+            const secondsLeft = Math.max(1, Math.ceil((this.countdownEndsAt - serverTime) / 1000));
+            this.headlineText.text = `${secondsLeft}`;
+        } else if (this.mode === 'fight') {
+            const elapsed = performance.now() - this.fightShownAt;
+            this.alpha = Math.max(0, 1 - elapsed / this.FIGHT_VISIBLE_MS);
+            if (elapsed >= this.FIGHT_VISIBLE_MS) {
+                this.hide();
+            }
+            return;
+        }
+        this.alpha = 1;
+    }
+
+    public fixPosition(): void {
+        // Center of the visible area, a little above the middle so the player stays in view
+        this.x = this.largestWidth / 2;
+        this.y = 350;
+    }
+
+    destroy(): void {
+        super.destroy({ children: true });
+    }
+}
@@ -0,0 +1,147 @@
+import { Container, Graphics, Text, TextStyle } from 'pixi.js';
+import type { MatchSettings, PlayerScore, TeamId } from '../../types/network.types';
+import { getRankingScore, getScoreTarget } from '../../utils/gameModes';
+import { TEAM_COLORS, TEAM_LABELS } from '../../utils/teams';
+
+/**
+ * Top center HUD with the time left, the kill target and who is in the lead
+ */
+export class MatchTimerDisplay extends Container {
+    private readonly WIDTH = 360;
+    private readonly HEIGHT = 50;
+    private readonly WARNING_COLOR = '#FF4444';
+    private background: Graphics;
+    private timeText: Text;
+    private targetText: Text;
+    private leaderText: Text;
+    private settings: MatchSettings | null = null;
+    private matchEndsAt: number | null = null;
+    private warning: boolean = false;
+    private largestWidth: number = 1920; // make dynamic;
+
+    constructor() {
+        super();
+        this.background = new Graphics()
+            .roundRect(0, 0, this.WIDTH, this.HEIGHT, 6)
+            .fill({
+                color: 0x000000,
+                alpha: 0.5
+            });
+        this.addChild(this.background);
+
+        this.timeText = new Text({
+            text: '0:00',
+            style: new TextStyle({
+                fontFamily: 'Pixel',
+                fontSize: 32,
+                fill: '#FFFFFF',
+            })
+        });
+        this.timeText.anchor.set(0.5);
+        this.timeText.position.set(this.WIDTH / 2, this.HEIGHT / 2);
+        this.addChild(this.timeText);
+
+        this.targetText = new Text({
+            text: '',
+            style: new TextStyle({
+                fontFamily: 'Pixel',
+                fontSize: 16,
+                fill: '#AAAAAA',
+            })
+        });
+        this.targetText.anchor.set(0, 0.5);
+        this.targetText.position.set(12, this.HEIGHT / 2);
+        this.addChild(this.targetText);
+
+        this.leaderText = new Text({
+            text: '',
+            style: new TextStyle({
+                fontFamily: 'Pixel',
+                fontSize: 16,
+                fill: '#FFFFFF',
+                align: 'right',
+            })
+        });
+        this.leaderText.anchor.set(1, 0.5);
+        this.leaderText.position.set(this.WIDTH - 12, this.HEIGHT / 2);
+        this.addChild(this.leaderText);
+
+        this.visible = false;
+        this.fixPosition();
+    }
+
+    /**
+     * Match settings from the server. matchEndsAt is only known once the match is live.
+     */
+    public setMatch(settings: MatchSettings, matchEndsAt?: number): void {
+        this.settings = settings;
+        this.matchEndsAt = matchEndsAt ?? null;
+        this.targetText.text = getScoreTarget(settings);
+        this.visible = true;
+    }
+
+    /**
+     * Time left in ms, null until the match is live
+     */
+    public getRemainingMs(serverTime: number): number | null {
+        if (this.matchEndsAt === null) return null;
+        return Math.max(0, this.matchEndsAt - serverTime);
+    }
+
+    public setWarning(warning: boolean): void {
+        this.warning = warning;
+        this.timeText.style.fill = warning ? this.WARNING_COLOR : '#FFFFFF';
+        this.timeText.scale.set(1);
+    }
+
+    public setLeader(leader: PlayerScore | null, selfId: string): void {
+        const isSelf = leader?.playerId === selfId;
+        let label = '';
+        if (leader) {
+            const score = getRankingScore(leader);
+            label = isSelf ? `You lead (${score})` : `${leader.name} (${score})`;
+        }
+        this.setLeaderText(label, isSelf ? '#FFFF00' : '#FFFFFF'); // Same highlight the scoreboard uses for self
+    }
+
+    public setLeadingTeam(leader: { team: TeamId, score: number } | null): void {
+        const label = leader ? `${TEAM_LABELS[leader.team]} leads (${leader.score})` : '';
+        this.setLeaderText(label, leader ? TEAM_COLORS[leader.team] : '#FFFFFF');
+    }
+
+    private setLeaderText(label: string, color: string | number): void {
+        if (label === this.leaderText.text) return;
+        this.leaderText.text = label;
+        this.leaderText.style.fill = color;
+    }
+
+    /**
+     * Tick the clock and pulse it in the final seconds, call every frame
+     */
+    public update(serverTime: number): void {
+        if (!this.settings) return;
+        const remainingMs = this.getRemainingMs(serverTime) ?? this.settings.durationMs;
+        this.timeText.text = this.formatTime(remainingMs);
+
+        if (this.warning) {
+            const pulse = 1 + 0.1 * Math.abs(Math.sin(serverTime / 250));
+            this.timeText.scale.set(pulse);
+        }
+    }
+
+    private formatTime(ms: number): string {
+        // Round up so the clock reads 0:00 only when time is actually up
+        const totalSeconds = Math.ceil(ms / 1000);
+        return `${Math.floor(totalSeconds / 60)}:${(totalSeconds % 60).toString().padStart(2, '0')}`;
+    }
+
+    public fixPosition(): void {
+        // Top center, the visible area is always centered on the game width
+        this.x = this.largestWidth / 2 - this.WIDTH / 2;
+        this.y = 5;
+    }
+
+    destroy(): void {
+        super.destroy({ children: true });
+    }
+}
@@ -1,6 +1,7 @@
 export class ModalManager {
     private static instance: ModalManager;
     private activeModal: HTMLElement | null = null;
+    private activeMessage: HTMLElement | null = null;
     
     private constructor() {}
     
@@ -124,6 +125,7 @@ export class ModalManager {
         
         // Store reference to active modal
         this.activeModal = modalContainer;
+        this.activeMessage = message;
 
 
         if (options.isWarning) {
@@ -150,10 +152,20 @@ export class ModalManager {
 
     }
     
+    /**
+     * Replace the message of the open modal, e.g. for countdowns
+     */
+    public updateMessage(message: string): void {
+        if (this.activeMessage) {
+            this.activeMessage.textContent = message;
+        }
+    }
+
     public closeModal(): void {
         if (this.activeModal && this.activeModal.parentNode) {
             document.body.removeChild(this.activeModal);
             this.activeModal = null;
+            this.activeMessage = null;
         }
     }
 }
\ No newline at end of file
@@ -0,0 +1,162 @@
+import { Container, Text, Graphics } from 'pixi.js';
+import type { ReconciliationStats } from '../../types/network.types';
+
+// Raw readings handed to the overlay, counters are cumulative and turned into rates here
+export interface NetworkDiagnosticsSample {
+    rtt: number;
+    jitter: number;
+    snapshotInterval: number;
+    bytesIn: number;
+    bytesOut: number;
+    reconciliation: ReconciliationStats;
+}
+
+interface GraphConfig {
+    label: string;
+    unit: string;
+    color: number;
+    // Graphs scale to their largest value, but never below this so noise stays flat
+    minScale: number;
+}
+
+interface Graph {
+    config: GraphConfig;
+    values: number[];
+    line: Graphics;
+    labelText: Text;
+}
+
+const GRAPHS: GraphConfig[] = [
+    { label: 'RTT', unit: 'ms', color: 0x00ff00, minScale: 100 },
+    { label: 'Jitter', unit: 'ms', color: 0xffff00, minScale: 20 },
+    { label: 'Snapshot interval', unit: 'ms', color: 0x00ffff, minScale: 50 },
+    { label: 'Tick gap', unit: 'ticks', color: 0xff9900, minScale: 10 },
+    { label: 'Corrections', unit: '/s', color: 0xff4444, minScale: 5 },
+    { label: 'Correction size', unit: 'px/s', color: 0xff66cc, minScale: 50 },
+    { label: 'In', unit: 'KB/s', color: 0x7462B3, minScale: 10 },
+    { label: 'Out', unit: 'KB/s', color: 0xd2758e, minScale: 5 },
+];
+
+export class NetworkGraphOverlay extends Container {
+    private readonly SAMPLE_INTERVAL_MS = 250;
+    private readonly HISTORY_LENGTH = 120; // 30 seconds at SAMPLE_INTERVAL_MS
+    private readonly GRAPH_WIDTH = 240;
+    private readonly GRAPH_HEIGHT = 40;
+    private readonly GRAPH_SPACING = 58;
+    private background: Graphics;
+    private graphs: Graph[] = [];
+    private largestWidth: number = 1920; // make dynamic;
+    private elapsedSinceSample: number = 0;
+    private previous: { sample: NetworkDiagnosticsSample; time: number } | null = null;
+
+    constructor() {
+        super();
+
+        this.background = new Graphics()
+            .rect(0, 0, this.GRAPH_WIDTH + 20, GRAPHS.length * this.GRAPH_SPACING + 10)
+            .fill({
+                color: 0x000000,
+                alpha: 0.6
+            });
+        this.addChild(this.background);
+
+        GRAPHS.forEach((config, index) => {
+            const top = 10 + index * this.GRAPH_SPACING;
+
+            const labelText = new Text({
+                text: `${config.label}: --`,
+                style: {
+                    fontFamily: 'Arial',
+                    fontSize: 12,
+                    fill: config.color
+                }
+            });
+            labelText.position.set(10, top);
+
+            const axis = new Graphics()
+                .rect(10, top + 16, this.GRAPH_WIDTH, this.GRAPH_HEIGHT)
+                .stroke({ color: 0x444444, width: 1 });
+
+            const line = new Graphics();
+
+            this.addChild(axis);
+            this.addChild(line);
+            this.addChild(labelText);
+            this.graphs.push({ config, values: [], line, labelText });
+        });
+
+        this.fixPosition();
+    }
+
+    /**
+     * Feed the latest readings, call every frame. Graphs advance every SAMPLE_INTERVAL_MS.
+     */
+    public update(deltaMs: number, sample: NetworkDiagnosticsSample): void {
+        this.elapsedSinceSample += deltaMs;
+        if (this.elapsedSinceSample < this.SAMPLE_INTERVAL_MS) return;
+        this.elapsedSinceSample = 0;
+
+        const now = performance.now();
+        const previous = this.previous;
+        this.previous = { sample: { ...sample, reconciliation: { ...sample.reconciliation } }, time: now };
+        if (!previous) return;
+
+        const seconds = (now - previous.time) / 1000;
+        if (seconds <= 0) return;
+        const perSecond = (current: number, last: number) => Math.max(0, current - last) / seconds;
+
+        const values = [
+            sample.rtt,
+            sample.jitter,
+            sample.snapshotInterval,
+            sample.reconciliation.tickGap,
+            perSecond(sample.reconciliation.corrections, previous.sample.reconciliation.corrections),
+            perSecond(sample.reconciliation.correctionDistance, previous.sample.reconciliation.correctionDistance),
+            perSecond(sample.bytesIn, previous.sample.bytesIn) / 1024,
+            perSecond(sample.bytesOut, previous.sample.bytesOut) / 1024,
+        ];
+
+        values.forEach((value, index) => this.pushValue(this.graphs[index], value, index));
+    }
+
+    private pushValue(graph: Graph, value: number, index: number): void {
+        graph.values.push(value);
+        if (graph.values.length > this.HISTORY_LENGTH) {
+            graph.values.shift();
+        }
+
+        const digits = Math.abs(value) < 10 ? 1 : 0;
+        graph.labelText.text = `${graph.config.label}: ${value.toFixed(digits)} ${graph.config.unit}`;
+
+        const top = 10 + index * this.GRAPH_SPACING + 16;
+        const scale = Math.max(graph.config.minScale, ...graph.values.map(Math.abs));
+        const step = this.GRAPH_WIDTH / (this.HISTORY_LENGTH - 1);
+
+        graph.line.clear();
+        graph.values.forEach((v, i) => {
+            const x = 10 + i * step;
+            const y = top + this.GRAPH_HEIGHT - (Math.max(0, Math.min(v, scale)) / scale) * this.GRAPH_HEIGHT;
+            if (i === 0) {
+                graph.line.moveTo(x, y);
+            } else {
+                graph.line.lineTo(x, y);
+            }
+        });
+        graph.line.stroke({ color: graph.config.color, width: 1.5 });
+    }
+
+    public fixPosition(): void {
+        // Top right corner with slight margin
+        const windowWidth = window.innerWidth;
+        const largestWidth = this.largestWidth;
+        const offset = -(windowWidth - largestWidth) / 2;
+        const right = offset < 0 ? largestWidth : largestWidth - offset;
+        this.x = right - this.background.width - 50;
+        this.y = 220;
+    }
+
+    destroy(): void {
+        this.graphs = [];
+        super.destroy({ children: true });
+    }
+}
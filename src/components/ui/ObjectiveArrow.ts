@@ -0,0 +1,69 @@
+import { Container, Graphics } from 'pixi.js';
+
+/**
+ * Arrow on the edge of the screen pointing at an objective that is out of view
+ */
+export class ObjectiveArrow extends Container {
+    private readonly MARGIN = 60;
+    private readonly SIZE = 28;
+    private arrow: Graphics;
+    private color: number | null = null;
+    private largestWidth: number = 1920; // make dynamic;
+    private largestHeight: number = 1080;
+
+    constructor() {
+        super();
+        this.arrow = new Graphics();
+        this.addChild(this.arrow);
+        this.visible = false;
+    }
+
+    /**
+     * Point at a position in screen coordinates, hides while that position is on screen
+     */
+    public pointTo(targetX: number, targetY: number, color: number): void {
+        // Same visible area the other HUD elements assume, the sides get cut off on narrow windows
+        const hiddenWidth = Math.max(0, (this.largestWidth - window.innerWidth) / 2);
+        const left = hiddenWidth + this.MARGIN;
+        const right = this.largestWidth - hiddenWidth - this.MARGIN;
+        const top = this.MARGIN;
+        const bottom = this.largestHeight - this.MARGIN;
+
+        if (targetX >= left && targetX <= right && targetY >= top && targetY <= bottom) {
+            this.visible = false;
+            return;
+        }
+
+        // Walk from the center of the screen towards the target until we hit the edge
+        const centerX = this.largestWidth / 2;
+        const centerY = this.largestHeight / 2;
+        const dx = targetX - centerX;
+        const dy = targetY - centerY;
+        const scaleX = dx === 0 ? Infinity : ((dx > 0 ? right : left) - centerX) / dx;
+        const scaleY = dy === 0 ? Infinity : ((dy > 0 ? bottom : top) - centerY) / dy;
+        const scale = Math.min(scaleX, scaleY);
+
+        this.position.set(centerX + dx * scale, centerY + dy * scale);
+        this.rotation = Math.atan2(dy, dx);
+        this.setColor(color);
+        this.visible = true;
+    }
+
+    public hide(): void {
+        this.visible = false;
+    }
+
+    private setColor(color: number): void {
+        if (color === this.color) return;
+        this.color = color;
+        this.arrow.clear();
+        this.arrow
+            .poly([this.SIZE, 0, -this.SIZE / 2, -this.SIZE * 0.75, -this.SIZE / 2, this.SIZE * 0.75])
+            .fill({ color, alpha: 0.9 })
+            .stroke({ color: 0x000000, width: 3 });
+    }
+
+    destroy(): void {
+        super.destroy({ children: true });
+    }
+}
@@ -0,0 +1,116 @@
+import { Container, Graphics, Text, TextStyle } from 'pixi.js';
+import type { ActivePowerUpState, PowerUpType } from '../../types/network.types';
+import { POWER_UPS } from '../../utils/powerUps';
+
+/**
+ * Bottom center HUD for the power-up we hold: its icon, what it does and how long it has left
+ */
+export class PowerUpDisplay extends Container {
+    private readonly WIDTH = 380;
+    private readonly HEIGHT = 70;
+    private readonly ICON_RADIUS = 24;
+    private readonly BAR_HEIGHT = 6;
+    private icon: Graphics;
+    private iconText: Text;
+    private nameText: Text;
+    private detailText: Text;
+    private timeBar: Graphics;
+    private type: PowerUpType | null = null;
+    private largestWidth: number = 1920; // make dynamic;
+
+    constructor() {
+        super();
+        const background = new Graphics()
+            .roundRect(0, 0, this.WIDTH, this.HEIGHT, 6)
+            .fill({
+                color: 0x000000,
+                alpha: 0.5
+            });
+        this.addChild(background);
+
+        this.icon = new Graphics();
+        this.icon.position.set(12 + this.ICON_RADIUS, this.HEIGHT / 2 - this.BAR_HEIGHT / 2);
+        this.addChild(this.icon);
+
+        this.iconText = new Text({
+            text: '',
+            style: new TextStyle({
+                fontFamily: 'Pixel',
+                fontSize: 18,
+                fill: '#FFFFFF',
+            })
+        });
+        this.iconText.anchor.set(0.5);
+        this.iconText.position.copyFrom(this.icon.position);
+        this.addChild(this.iconText);
+
+        const textX = 24 + this.ICON_RADIUS * 2;
+        this.nameText = new Text({
+            text: '',
+            style: new TextStyle({
+                fontFamily: 'Pixel',
+                fontSize: 20,
+                fill: '#FFFFFF',
+            })
+        });
+        this.nameText.position.set(textX, 8);
+        this.addChild(this.nameText);
+
+        this.detailText = new Text({
+            text: '',
+            style: new TextStyle({
+                fontFamily: 'Pixel',
+                fontSize: 16,
+                fill: '#AAAAAA',
+            })
+        });
+        this.detailText.position.set(textX, 34);
+        this.addChild(this.detailText);
+
+        this.timeBar = new Graphics();
+        this.timeBar.y = this.HEIGHT - this.BAR_HEIGHT;
+        this.addChild(this.timeBar);
+
+        this.visible = false;
+        this.fixPosition();
+    }
+
+    /**
+     * Show the power-up we hold, or hide with none
+     */
+    public update(powerUp: ActivePowerUpState | null, serverTime: number): void {
+        if (!powerUp) {
+            this.type = null;
+            this.visible = false;
+            return;
+        }
+
+        const definition = POWER_UPS[powerUp.type];
+        if (powerUp.type !== this.type) {
+            this.type = powerUp.type;
+            this.icon.clear();
+            this.icon.circle(0, 0, this.ICON_RADIUS).fill(definition.color);
+            this.iconText.text = definition.icon;
+            this.nameText.text = definition.name;
+        }
+
+        const remainingMs = Math.max(0, powerUp.endsAt - serverTime);
+        this.detailText.text = `${(remainingMs / 1000).toFixed(1)}s  -  ${powerUp.charges} tomatoes`;
+
+        this.timeBar.clear();
+        this.timeBar
+            .rect(0, 0, this.WIDTH * Math.min(1, remainingMs / definition.durationMs), this.BAR_HEIGHT)
+            .fill(definition.color);
+        this.visible = true;
+    }
+
+    public fixPosition(): void {
+        // Bottom center, the visible area is always centered on the game width
+        this.x = this.largestWidth / 2 - this.WIDTH / 2;
+        this.y = 1080 - this.HEIGHT - 20;
+    }
+
+    destroy(): void {
+        super.destroy({ children: true });
+    }
+}
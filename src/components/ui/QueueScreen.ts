@@ -0,0 +1,281 @@
+import { REGION_LABELS, isRegion } from '../../utils/regions';
+import { getInviteUrl } from '../../utils/inviteCode';
+import type { LobbyState } from '../../types/network.types';
+
+/**
+ * Full screen overlay shown between the login screen and the match while we wait in the matchmaking queue
+ */
+export class QueueScreen {
+    private container: HTMLDivElement;
+    private titleText: HTMLDivElement;
+    private regionText: HTMLDivElement;
+    private timerText: HTMLDivElement;
+    private statusText: HTMLDivElement;
+    private cancelButton: HTMLButtonElement;
+    private lobbyPanel: HTMLDivElement;
+    private codeText: HTMLDivElement;
+    private copyButton: HTMLButtonElement;
+    private memberList: HTMLDivElement;
+    private startButton: HTMLButtonElement;
+    private inviteCode: string = '';
+    private timerIntervalId: ReturnType<typeof setInterval> | null = null;
+    private queuedAt: number = Date.now();
+
+    constructor(region: string, onCancel: () => void, onStartLobby: () => void) {
+        this.container = document.createElement('div');
+        this.container.style.cssText = `
+            position: fixed;
+            top: 0;
+            left: 0;
+            width: 100%;
+            height: 100%;
+            background: rgba(0, 0, 0, 0.85);
+            display: flex;
+            justify-content: center;
+            align-items: center;
+            z-index: 100;
+            font-family: 'Pixel', sans-serif;
+        `;
+
+        const panel = document.createElement('div');
+        panel.style.cssText = `
+            background: #1a1a1a;
+            padding: 50px 75px;
+            border-radius: 6px;
+            width: 280px;
+            box-shadow: 0 10px 25px rgba(0, 0, 0, 0.3);
+            display: flex;
+            flex-direction: column;
+            align-items: center;
+            color: white;
+            text-align: center;
+        `;
+
+        this.titleText = document.createElement('div');
+        this.titleText.textContent = 'Finding a match';
+        this.titleText.style.cssText = `
+            font-size: 32px;
+            margin-bottom: 24px;
+        `;
+
+        this.regionText = document.createElement('div');
+        this.regionText.style.cssText = `
+            font-size: 20px;
+            color: #aaa;
+            margin-bottom: 12px;
+        `;
+
+        this.timerText = document.createElement('div');
+        this.timerText.style.cssText = `
+            font-size: 48px;
+            color: #7462B3;
+            margin-bottom: 12px;
+        `;
+
+        this.statusText = document.createElement('div');
+        this.statusText.style.cssText = `
+            font-size: 18px;
+            color: #666;
+            min-height: 24px;
+            margin-bottom: 24px;
+        `;
+        this.statusText.textContent = 'Connecting...';
+
+        this.cancelButton = document.createElement('button');
+        this.cancelButton.textContent = 'Cancel';
+        this.cancelButton.style.cssText = `
+            padding: 12px 24px;
+            font-size: 24px;
+            border: none;
+            border-radius: 4px;
+            background: #7462B3;
+            color: white;
+            cursor: pointer;
+            transition: all 0.2s ease;
+            font-family: 'Pixel', sans-serif;
+        `;
+        this.cancelButton.addEventListener('mouseover', () => {
+            this.cancelButton.style.background = '#d2758e';
+        });
+        this.cancelButton.addEventListener('mouseout', () => {
+            this.cancelButton.style.background = '#7462B3';
+        });
+        // Private lobby details, hidden until the server tells us we're in one
+        this.lobbyPanel = document.createElement('div');
+        this.lobbyPanel.style.cssText = `
+            display: none;
+            flex-direction: column;
+            align-items: center;
+            width: 100%;
+            margin-bottom: 24px;
+        `;
+
+        this.codeText = document.createElement('div');
+        this.codeText.style.cssText = `
+            font-size: 40px;
+            letter-spacing: 6px;
+            color: #7462B3;
+            margin-bottom: 8px;
+        `;
+
+        this.copyButton = document.createElement('button');
+        this.copyButton.textContent = 'Copy Invite Link';
+        this.copyButton.style.cssText = `
+            padding: 6px 12px;
+            font-size: 18px;
+            border: none;
+            background: transparent;
+            color: #aaa;
+            cursor: pointer;
+            transition: all 0.2s ease;
+            margin-bottom: 16px;
+            font-family: 'Pixel', sans-serif;
+        `;
+        this.copyButton.addEventListener('mouseover', () => {
+            this.copyButton.style.color = '#d2758e';
+        });
+        this.copyButton.addEventListener('mouseout', () => {
+            this.copyButton.style.color = '#aaa';
+        });
+        this.copyButton.addEventListener('click', this.copyInviteLink);
+
+        this.memberList = document.createElement('div');
+        this.memberList.style.cssText = `
+            width: 100%;
+            font-size: 20px;
+            text-align: left;
+            margin-bottom: 16px;
+        `;
+
+        this.startButton = document.createElement('button');
+        this.startButton.textContent = 'Start';
+        this.startButton.style.cssText = `
+            padding: 12px 24px;
+            font-size: 24px;
+            border: none;
+            border-radius: 4px;
+            background: #7462B3;
+            color: white;
+            cursor: pointer;
+            transition: all 0.2s ease;
+            font-family: 'Pixel', sans-serif;
+            display: none;
+        `;
+        this.startButton.addEventListener('mouseover', () => {
+            this.startButton.style.background = '#d2758e';
+        });
+        this.startButton.addEventListener('mouseout', () => {
+            this.startButton.style.background = '#7462B3';
+        });
+        this.startButton.addEventListener('click', () => {
+            this.startButton.disabled = true;
+            this.startButton.style.opacity = '0.6';
+            this.statusText.textContent = 'Starting match...';
+            onStartLobby();
+        });
+
+        this.lobbyPanel.appendChild(this.codeText);
+        this.lobbyPanel.appendChild(this.copyButton);
+        this.lobbyPanel.appendChild(this.memberList);
+        this.lobbyPanel.appendChild(this.startButton);
+
+        this.cancelButton.addEventListener('click', () => {
+            this.cancelButton.disabled = true;
+            this.cancelButton.style.opacity = '0.6';
+            this.statusText.textContent = 'Leaving queue...';
+            onCancel();
+        });
+
+        panel.appendChild(this.titleText);
+        panel.appendChild(this.regionText);
+        panel.appendChild(this.timerText);
+        panel.appendChild(this.lobbyPanel);
+        panel.appendChild(this.statusText);
+        panel.appendChild(this.cancelButton);
+        this.container.appendChild(panel);
+
+        this.setRegion(region);
+        this.updateTimer();
+    }
+
+    public show(): void {
+        if (this.container.parentNode) return;
+        document.body.appendChild(this.container);
+        this.queuedAt = Date.now();
+        this.updateTimer();
+        this.timerIntervalId = setInterval(() => this.updateTimer(), 1000);
+    }
+
+    public setRegion(region: string): void {
+        this.regionText.textContent = `Region: ${isRegion(region) ? REGION_LABELS[region] : region}`;
+    }
+
+    public setQueued(): void {
+        this.statusText.textContent = 'Waiting for players...';
+    }
+
+    public setMovedToGlobalQueue(): void {
+        this.setRegion('GLOBAL');
+        this.statusText.textContent = 'Not enough players nearby, moved to the global queue';
+    }
+
+    /**
+     * Switch to the private lobby view: invite code, members and, for the host, the start button
+     */
+    public setLobby(lobby: LobbyState): void {
+        this.inviteCode = lobby.code;
+        this.titleText.textContent = 'Private match';
+        this.timerText.style.display = 'none';
+        this.lobbyPanel.style.display = 'flex';
+        this.codeText.textContent = lobby.code;
+
+        this.memberList.replaceChildren(...lobby.members.map(member => {
+            const row = document.createElement('div');
+            row.textContent = member.isHost ? `${member.name} (host)` : member.name;
+            row.style.cssText = `
+                padding: 4px 0;
+                border-bottom: 1px solid #252525;
+                color: ${member.isHost ? '#7462B3' : 'white'};
+            `;
+            return row;
+        }));
+
+        this.startButton.style.display = lobby.isHost ? 'block' : 'none';
+        if (!this.startButton.disabled) {
+            this.statusText.textContent = lobby.isHost
+                ? 'Share the code, then start when everyone is here'
+                : 'Waiting for the host to start...';
+        }
+    }
+
+    private copyInviteLink = async () => {
+        if (!this.inviteCode) return;
+        try {
+            await navigator.clipboard.writeText(getInviteUrl(this.inviteCode));
+            this.copyButton.textContent = 'Copied!';
+        } catch (error) {
+            console.error('Error copying invite link', error);
+            this.copyButton.textContent = 'Copy failed, share the code';
+        }
+        setTimeout(() => {
+            this.copyButton.textContent = 'Copy Invite Link';
+        }, 2000);
+    }
+
+    public hide(): void {
+        if (this.timerIntervalId) {
+            clearInterval(this.timerIntervalId);
+            this.timerIntervalId = null;
+        }
+        if (this.container.parentNode) {
+            document.body.removeChild(this.container);
+        }
+    }
+
+    private updateTimer(): void {
+        const elapsedSeconds = Math.floor((Date.now() - this.queuedAt) / 1000);
+        const minutes = Math.floor(elapsedSeconds / 60);
+        const seconds = elapsedSeconds % 60;
+        this.timerText.textContent = `${minutes}:${seconds.toString().padStart(2, '0')}`;
+    }
+}
@@ -0,0 +1,74 @@
+import { Container, Graphics, Text } from 'pixi.js';
+import { QUICK_CHAT_OPTIONS } from '../../utils/quickChat';
+
+export class QuickChatMenu extends Container {
+    private readonly WIDTH = 240;
+    private readonly LINE_HEIGHT = 28;
+    private background: Graphics;
+    private largestWidth: number = 1920; // make dynamic;
+
+    constructor() {
+        super();
+        const height = (QUICK_CHAT_OPTIONS.length + 1) * this.LINE_HEIGHT + 20;
+        this.background = new Graphics()
+            .rect(0, 0, this.WIDTH, height)
+            .fill({
+                color: 0x000000,
+                alpha: 0.6
+            });
+        this.addChild(this.background);
+
+        const title = new Text({
+            text: 'QUICK CHAT',
+            style: {
+                fontFamily: 'Pixel',
+                fontSize: 20,
+                fill: 0x7462B3,
+            }
+        });
+        title.position.set(15, 10);
+        this.addChild(title);
+
+        QUICK_CHAT_OPTIONS.forEach((option, index) => {
+            const line = new Text({
+                text: `${option.id}. ${option.text}`,
+                style: {
+                    fontFamily: 'Pixel',
+                    fontSize: 18,
+                    fill: 0xffffff,
+                }
+            });
+            line.position.set(15, 10 + (index + 1) * this.LINE_HEIGHT);
+            this.addChild(line);
+        });
+
+        this.visible = false;
+        this.fixDisplayPosition();
+    }
+
+    public isOpen(): boolean {
+        return this.visible;
+    }
+
+    public toggle(): void {
+        this.visible = !this.visible;
+    }
+
+    public close(): void {
+        this.visible = false;
+    }
+
+    public fixDisplayPosition(): void {
+        // Left side, vertically centered, same margin as the chat log
+        const windowWidth = window.innerWidth;
+        const largestWidth = this.largestWidth;
+
+        const offset = -(windowWidth - largestWidth) / 2;
+        this.x = offset < 0 ? 50 : 50 + offset;
+        this.y = 300;
+    }
+
+    destroy(): void {
+        super.destroy({ children: true });
+    }
+}
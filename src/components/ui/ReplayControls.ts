@@ -0,0 +1,159 @@
+import type { ReplayPlaybackState } from '../../managers/ReplayManager';
+
+const SPEEDS = [0.25, 0.5, 1, 2, 4];
+
+export interface ReplayControlsCallbacks {
+    onTogglePause: () => void;
+    onSeek: (time: number) => void;
+    onSpeedChange: (speed: number) => void;
+    onExit: () => void;
+}
+
+/**
+ * Playback bar along the bottom of the screen while watching a replay
+ */
+export class ReplayControls {
+    private container: HTMLDivElement;
+    private playButton: HTMLButtonElement;
+    private seekBar: HTMLInputElement;
+    private timeText: HTMLSpanElement;
+    private speedSelect: HTMLSelectElement;
+    private isDraggingSeekBar: boolean = false;
+
+    constructor(callbacks: ReplayControlsCallbacks) {
+        this.container = document.createElement('div');
+        this.container.style.cssText = `
+            position: fixed;
+            left: 50%;
+            bottom: 20px;
+            transform: translateX(-50%);
+            width: 720px;
+            max-width: calc(100% - 40px);
+            background: rgba(26, 26, 26, 0.9);
+            border-radius: 6px;
+            padding: 10px 16px;
+            display: flex;
+            align-items: center;
+            gap: 12px;
+            z-index: 100;
+            font-family: 'Pixel', sans-serif;
+            color: white;
+            box-sizing: border-box;
+        `;
+
+        this.playButton = this.createButton('Play');
+        this.playButton.style.width = '80px';
+        this.playButton.addEventListener('click', () => callbacks.onTogglePause());
+
+        this.seekBar = document.createElement('input');
+        this.seekBar.type = 'range';
+        this.seekBar.min = '0';
+        this.seekBar.max = '0';
+        this.seekBar.step = '1';
+        this.seekBar.value = '0';
+        this.seekBar.style.cssText = `
+            flex: 1;
+            accent-color: #7462B3;
+            cursor: pointer;
+        `;
+        // Only seek once the thumb is released, every seek backwards replays from the start
+        this.seekBar.addEventListener('input', () => {
+            this.isDraggingSeekBar = true;
+            this.timeText.textContent = this.formatTime(Number(this.seekBar.value), Number(this.seekBar.max));
+        });
+        this.seekBar.addEventListener('change', () => {
+            this.isDraggingSeekBar = false;
+            callbacks.onSeek(Number(this.seekBar.value));
+        });
+
+        this.timeText = document.createElement('span');
+        this.timeText.style.cssText = `
+            font-size: 16px;
+            min-width: 110px;
+            text-align: center;
+        `;
+
+        this.speedSelect = document.createElement('select');
+        this.speedSelect.style.cssText = `
+            padding: 6px 8px;
+            font-size: 16px;
+            border: none;
+            border-radius: 4px;
+            background: #252525;
+            color: white;
+            cursor: pointer;
+            font-family: 'Pixel', sans-serif;
+        `;
+        for (const speed of SPEEDS) {
+            const option = document.createElement('option');
+            option.value = speed.toString();
+            option.textContent = `${speed}x`;
+            this.speedSelect.appendChild(option);
+        }
+        this.speedSelect.value = '1';
+        this.speedSelect.addEventListener('change', () => {
+            callbacks.onSpeedChange(Number(this.speedSelect.value));
+            this.speedSelect.blur(); // keep arrow keys for the spectator camera
+        });
+
+        const exitButton = this.createButton('Exit');
+        exitButton.addEventListener('click', () => callbacks.onExit());
+
+        this.container.appendChild(this.playButton);
+        this.container.appendChild(this.seekBar);
+        this.container.appendChild(this.timeText);
+        this.container.appendChild(this.speedSelect);
+        this.container.appendChild(exitButton);
+    }
+
+    public show(): void {
+        if (this.container.parentNode) return;
+        document.body.appendChild(this.container);
+    }
+
+    public update(state: ReplayPlaybackState): void {
+        this.playButton.textContent = state.paused ? 'Play' : 'Pause';
+        this.seekBar.max = Math.round(state.duration).toString();
+        if (!this.isDraggingSeekBar) {
+            this.seekBar.value = Math.round(state.time).toString();
+            this.timeText.textContent = this.formatTime(state.time, state.duration);
+        }
+    }
+
+    public hide(): void {
+        if (this.container.parentNode) {
+            document.body.removeChild(this.container);
+        }
+    }
+
+    private createButton(text: string): HTMLButtonElement {
+        const button = document.createElement('button');
+        button.textContent = text;
+        button.style.cssText = `
+            padding: 6px 12px;
+            font-size: 16px;
+            border: none;
+            border-radius: 4px;
+            background: #7462B3;
+            color: white;
+            cursor: pointer;
+            transition: all 0.2s ease;
+            font-family: 'Pixel', sans-serif;
+        `;
+        button.addEventListener('mouseover', () => {
+            button.style.background = '#d2758e';
+        });
+        button.addEventListener('mouseout', () => {
+            button.style.background = '#7462B3';
+        });
+        return button;
+    }
+
+    private formatTime(time: number, duration: number): string {
+        const format = (ms: number) => {
+            const totalSeconds = Math.floor(ms / 1000);
+            return `${Math.floor(totalSeconds / 60)}:${(totalSeconds % 60).toString().padStart(2, '0')}`;
+        };
+        return `${format(time)} / ${format(duration)}`;
+    }
+}
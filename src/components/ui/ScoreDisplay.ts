@@ -1,11 +1,14 @@
 import { Container, Text, TextStyle } from 'pixi.js';
-import type { PlayerScore, PlayerServerState } from '../../types/network.types';
+import type { MatchSettings, PlayerScore, PlayerServerState, TeamId } from '../../types/network.types';
+import { TEAMS, TEAM_COLORS, TEAM_LABELS } from '../../utils/teams';
+import { GAME_MODE_LABELS, getRankingScore, getScoreTarget } from '../../utils/gameModes';
 
 
 
 export class ScoreManager extends Container {
-    private scores: Map<string, { kills: number, deaths: number, name: string }> = new Map();
+    private scores: Map<string, { kills: number, deaths: number, name: string, team?: TeamId, captures?: number, points?: number }> = new Map();
     private displayScores: Map<string, Text> = new Map();
+    private teamHeaders: Text[] = [];
     private scoreContainer: Container;
     private header: Text;
     private largestWidth: number = 1920; // make dynamic;
@@ -60,15 +63,54 @@ export class ScoreManager extends Container {
             text.destroy();
         }
         this.displayScores.clear();
+        for (const header of this.teamHeaders) {
+            this.scoreContainer.removeChild(header);
+            header.destroy();
+        }
+        this.teamHeaders = [];
         
-        // Sort scores by kills (descending)
+        // Sort scores by kills (descending), or by the objective in the objective modes
         
-        const sortedScores = Array.from(this.scores.entries()).map(([id, score]) => ({ ...score, playerId: id })).sort((a, b) => b.kills - a.kills);
+        const sortedScores = Array.from(this.scores.entries())
+            .map(([id, score]) => ({ ...score, playerId: id }))
+            .sort((a, b) => getRankingScore(b) - getRankingScore(a) || b.kills - a.kills);
 
         
         let yOffset = 40; // Start below header
-        
-        for (const score of sortedScores) {
+
+        // Team modes list each team under its own header, leading team first
+        const teamScore = (team: TeamId) => this.getTeamScores()[team];
+        const teams = TEAMS
+            .filter(team => sortedScores.some(score => score.team === team))
+            .sort((a, b) => teamScore(b) - teamScore(a));
+        const teamUnit = sortedScores.some(score => score.captures !== undefined) ? 'captures' : 'kills';
+        const rows: (PlayerScore | TeamId)[] = teams.length > 0
+            ? [
+                ...teams.flatMap(team => [team, ...sortedScores.filter(score => score.team === team)]),
+                ...sortedScores.filter(score => !score.team),
+            ]
+            : sortedScores;
+
+        for (const row of rows) {
+            if (typeof row === 'string') {
+                const header = new Text({
+                    text: `${TEAM_LABELS[row]} - ${teamScore(row)} ${teamUnit}`,
+                    style: new TextStyle({
+                        fontFamily: 'Arial',
+                        fontSize: 15,
+                        fontWeight: 'bold',
+                        fill: TEAM_COLORS[row],
+                    })
+                });
+                header.x = 10;
+                header.y = yOffset + (this.teamHeaders.length > 0 ? 6 : 0);
+                yOffset = header.y + 22;
+                this.scoreContainer.addChild(header);
+                this.teamHeaders.push(header);
+                continue;
+            }
+
+            const score = row;
             const isCurrentPlayer = score.playerId === selfId;
             
             // Style based on if it's the current player
@@ -79,8 +121,11 @@ export class ScoreManager extends Container {
                 fontWeight: isCurrentPlayer ? 'bold' : 'normal',
             });
             
+            let objective = '';
+            if (score.captures !== undefined) objective = ` / ${score.captures} captures`;
+            if (score.points !== undefined) objective = ` / ${score.points} points`;
             const text = new Text(
-                `${score.name}: ${score.kills} kills / ${score.deaths} deaths`,
+                `${score.name}: ${score.kills} kills / ${score.deaths} deaths${objective}`,
                 style
             );
             
@@ -98,6 +143,52 @@ export class ScoreManager extends Container {
         this.scores.clear();
     }
 
+    public setMatchSettings(settings: MatchSettings): void {
+        this.header.text = `PLAYERS - ${GAME_MODE_LABELS[settings.mode]} (${getScoreTarget(settings)})`;
+    }
+
+    /**
+     * Player with the most kills (or hill points), null while nobody has scored or the top spot is tied
+     */
+    public getLeader(): PlayerScore | null {
+        let leader: PlayerScore | null = null;
+        let tied = false;
+        for (const [playerId, score] of this.scores) {
+            if (!leader || getRankingScore(score) > getRankingScore(leader)) {
+                leader = { playerId, ...score };
+                tied = false;
+            } else if (getRankingScore(score) === getRankingScore(leader)) {
+                tied = true;
+            }
+        }
+        if (!leader || getRankingScore(leader) === 0 || tied) return null;
+        return leader;
+    }
+
+    /**
+     * Team with the highest score, null in free-for-all, while nobody has scored or when tied
+     */
+    public getLeadingTeam(): { team: TeamId, score: number } | null {
+        if (!Array.from(this.scores.values()).some(score => score.team)) return null;
+
+        const scores = this.getTeamScores();
+        const [first, second] = [...TEAMS].sort((a, b) => scores[b] - scores[a]);
+        if (scores[first] === 0 || scores[first] === scores[second]) return null;
+        return { team: first, score: scores[first] };
+    }
+
+    /**
+     * Captures per team in capture the basket, kills per team otherwise
+     */
+    private getTeamScores(): Record<TeamId, number> {
+        const scores: Record<TeamId, number> = { red: 0, blue: 0 };
+        for (const score of this.scores.values()) {
+            if (!score.team) continue;
+            scores[score.team] += getRankingScore(score);
+        }
+        return scores;
+    }
+
     public updateScores(players: PlayerServerState[], selfId: string): void {
         const newScores: PlayerScore[] = [];
         const modifiedScores: PlayerScore[] = [];
@@ -108,13 +199,16 @@ export class ScoreManager extends Container {
                 playerId: player.id,
                 kills: player.kills,
                 deaths: player.deaths,
-                name: player.name
+                name: player.name,
+                team: player.team,
+                captures: player.captures,
+                points: player.points
             };
             const previousScore = this.scores.get(score.playerId);
             
             if (!previousScore) {
                 // new player score entry
-                this.scores.set(score.playerId, { kills: score.kills, deaths: score.deaths, name: score.name });
+                this.scores.set(score.playerId, { kills: score.kills, deaths: score.deaths, name: score.name, team: score.team, captures: score.captures, points: score.points });
                 newScores.push({...this.scores.get(score.playerId)!, playerId: score.playerId });
                 continue;
             }
@@ -135,14 +229,20 @@ export class ScoreManager extends Container {
             const updatedScore = {
                 kills: score.kills,
                 deaths: score.deaths,
-                name: score.name
+                name: score.name,
+                team: score.team,
+                captures: score.captures,
+                points: score.points
             }
 
             modifiedScores.push({
                 playerId: score.playerId,
                 kills: score.kills,
                 deaths: score.deaths,
-                name: score.name
+                name: score.name,
+                team: score.team,
+                captures: score.captures,
+                points: score.points
             });
 
             this.scores.set(score.playerId, updatedScore);
@@ -188,6 +288,10 @@ export class ScoreManager extends Container {
             text.destroy();
         }
         this.displayScores.clear();
+        for (const header of this.teamHeaders) {
+            header.destroy();
+        }
+        this.teamHeaders = [];
         super.destroy();
     }
 }
\ No newline at end of file
@@ -0,0 +1,104 @@
+import type { AmmoBush } from '../components/game/AmmoBush';
+import type { Player } from '../components/game/Player';
+import type { PlayerServerState } from '../types/network.types';
+import { AMMO } from '../utils/ammo';
+
+const AMMO_CONSTANTS = {
+    // How long a predicted harvest stands before we trust the server's count again
+    HARVEST_TIMEOUT_MS: 1000,
+} as const;
+
+/**
+ * Our own tomato count. Throws and harvests are predicted right away, then reconciled with
+ * the server's count the same way movement is: shots from inputs the server hasn't processed
+ * yet are taken off its number.
+ */
+export class AmmoManager {
+    private static instance: AmmoManager | null = null;
+    private serverAmmo: number = AMMO.MAX;
+    private harvestReadyAt: number = 0; // server time
+    // Input ticks of our throws the server hasn't processed yet, oldest first
+    private pendingShotTicks: number[] = [];
+    private predictedHarvest: { startedAt: number, readyAt: number } | null = null;
+
+    private constructor() {
+        // Private constructor for singleton pattern
+    }
+
+    public static getInstance(): AmmoManager {
+        if (!AmmoManager.instance) {
+            AmmoManager.instance = new AmmoManager();
+        }
+        return AmmoManager.instance;
+    }
+
+    /**
+     * Our own state from the latest snapshot, its tick is the last input the server processed
+     */
+    public setServerState(self: PlayerServerState): void {
+        if (self.ammo === undefined) return;
+        this.serverAmmo = self.ammo;
+        this.pendingShotTicks = this.pendingShotTicks.filter(tick => tick > self.tick);
+
+        const readyAt = self.harvestReadyAt ?? 0;
+        if (this.predictedHarvest) {
+            const confirmed = readyAt > this.harvestReadyAt;
+            if (confirmed || performance.now() - this.predictedHarvest.startedAt > AMMO_CONSTANTS.HARVEST_TIMEOUT_MS) {
+                this.predictedHarvest = null;
+            }
+        }
+        this.harvestReadyAt = readyAt;
+    }
+
+    public getAmmo(): number {
+        const base = this.predictedHarvest ? AMMO.MAX : this.serverAmmo;
+        return Math.max(0, base - this.pendingShotTicks.length);
+    }
+
+    /**
+     * Take a tomato for the throw made on this input tick
+     */
+    public spendShot(tick: number): void {
+        this.pendingShotTicks.push(tick);
+    }
+
+    public getHarvestCooldownMs(serverTime: number): number {
+        const readyAt = this.predictedHarvest?.readyAt ?? this.harvestReadyAt;
+        return Math.max(0, readyAt - serverTime);
+    }
+
+    /**
+     * Refill right away, the server confirms by moving harvestReadyAt forward
+     */
+    public harvest(serverTime: number): void {
+        this.predictedHarvest = {
+            startedAt: performance.now(),
+            readyAt: serverTime + AMMO.HARVEST_COOLDOWN_MS,
+        };
+        // The server takes these before the refill, the harvest is sent after them
+        this.pendingShotTicks = [];
+    }
+
+    /**
+     * Call every tick, shows the count on our player and tells the bush whether we can harvest
+     */
+    public update(player: Player | undefined, ammoBush: AmmoBush, serverTime: number): void {
+        const ammo = this.getAmmo();
+        player?.setAmmo(player.getIsBystander() ? undefined : ammo);
+        ammoBush.update(player, this.getHarvestCooldownMs(serverTime), ammo < AMMO.MAX);
+    }
+
+    /**
+     * Everyone starts the next match with a full basket and a fresh bush
+     */
+    public reset(): void {
+        this.serverAmmo = AMMO.MAX;
+        this.harvestReadyAt = 0;
+        this.pendingShotTicks = [];
+        this.predictedHarvest = null;
+    }
+
+    public cleanup(): void {
+        this.reset();
+    }
+}
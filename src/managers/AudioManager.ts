@@ -125,6 +125,13 @@ export class AudioManager {
             volume: 0.25
         }, 'sfx');
 
+        // Throwing with an empty basket, a sped up thud until we have a dedicated click
+        this.registerSound('emptyClick', {
+            src: [impactAudio],
+            volume: 0.15,
+            rate: 2.5
+        }, 'sfx');
+
         this.registerSound('jump', {
             src: [jumpAudio],
             volume: 0.70
@@ -163,6 +170,12 @@ export class AudioManager {
                 volume: 0.75
             }, 'sfx');
         }
+
+        // Final seconds of a match, reuses the hype clip until we have a dedicated one
+        this.registerSound('matchWarning', {
+            src: [matchStartSound2],
+            volume: 0.75
+        }, 'sfx');
     }
 
     public async playRandomDeathSound(): Promise<number | undefined> {
@@ -198,6 +211,10 @@ export class AudioManager {
         return await this.play(`matchStart${index+1}`);
     }
 
+    public async playMatchWarningSound(): Promise<number | undefined> {
+        return await this.play('matchWarning');
+    }
+
     public registerSound(soundId: string, config: SoundConfig, category: AudioCategory = 'sfx'): void {
         try {
             if (this.sounds.has(soundId)) {
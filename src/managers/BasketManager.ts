@@ -0,0 +1,205 @@
+import type { Container } from 'pixi.js';
+import type { EnemyPlayer } from '../components/game/EnemyPlayer';
+import type { Player } from '../components/game/Player';
+import { testForAABB } from '../components/game/systems/Collision';
+import { TeamBase } from '../components/game/TeamBase';
+import { TomatoBasket } from '../components/game/TomatoBasket';
+import { ObjectiveArrow } from '../components/ui/ObjectiveArrow';
+import type { BasketEvent, BasketServerState, MatchSettings } from '../types/network.types';
+import { TEAM_COLORS, TEAM_LABELS } from '../utils/teams';
+import { CameraManager } from './CameraManager';
+import { TvManager } from './TvManager';
+
+const BASKET_CONSTANTS = {
+    // How long a predicted pickup waits for the server to agree before it is undone
+    PICKUP_TIMEOUT_MS: 1000,
+    ARROW_COLOR: 0xFFD700,
+} as const;
+
+/**
+ * Capture the basket on the client: draws the basket and the team bases, predicts our own
+ * pickups and points the HUD arrow at whatever we should be running to.
+ */
+export class BasketManager {
+    private static instance: BasketManager | null = null;
+    private gameContainer: Container | null = null;
+    private arrow: ObjectiveArrow | null = null;
+    private basket: TomatoBasket | null = null;
+    private bases: TeamBase[] = [];
+    private serverState: BasketServerState | null = null;
+    private predictedPickupAt: number | null = null;
+    // After a rejected prediction, so we don't keep grabbing a basket the server won't give us
+    private predictionBlockedUntil: number = 0;
+
+    private constructor() {
+        // Private constructor for singleton pattern
+    }
+
+    public static getInstance(): BasketManager {
+        if (!BasketManager.instance) {
+            BasketManager.instance = new BasketManager();
+        }
+        return BasketManager.instance;
+    }
+
+    /**
+     * The basket and bases go into the game world, the returned arrow belongs on the HUD
+     */
+    public initialize(gameContainer: Container): ObjectiveArrow {
+        this.gameContainer = gameContainer;
+        this.arrow = new ObjectiveArrow();
+        return this.arrow;
+    }
+
+    /**
+     * Build the arena for capture the basket, or clear it out for the other modes
+     */
+    public setMatchSettings(settings: MatchSettings): void {
+        if (!this.gameContainer) return;
+        if (!settings.bases) {
+            this.clearArena();
+            return;
+        }
+        if (this.basket) return; // Already set up, bases don't move between rounds
+
+        for (const zone of settings.bases) {
+            const base = new TeamBase(zone);
+            this.bases.push(base);
+            this.gameContainer.addChild(base);
+        }
+        this.basket = new TomatoBasket();
+        this.basket.visible = false; // Until the first snapshot says where it is
+        this.gameContainer.addChild(this.basket);
+    }
+
+    public setServerState(state: BasketServerState | undefined): void {
+        this.serverState = state ?? null;
+    }
+
+    /**
+     * Call every tick. canPickUp is false outside the active phase.
+     */
+    public update(player: Player | undefined, playerId: string, enemies: Map<string, EnemyPlayer>, canPickUp: boolean): void {
+        if (!this.basket || !this.serverState) {
+            this.arrow?.hide();
+            return;
+        }
+        this.basket.visible = true;
+        this.updatePrediction(player, playerId, canPickUp);
+
+        const carrierId = this.predictedPickupAt !== null ? playerId : this.serverState.carrierId;
+        const carrier = carrierId === playerId ? player : carrierId ? enemies.get(carrierId) : undefined;
+        if (carrier && (carrier === player || (carrier as EnemyPlayer).isPlayerAlive())) {
+            // Follow the rendered carrier rather than the snapshot so the basket doesn't lag behind
+            this.basket.carryAbove(carrier.x, carrier.y);
+        } else if (carrierId) {
+            this.basket.carryAbove(this.serverState.x, this.serverState.y);
+        } else {
+            this.basket.placeAt(this.serverState.x, this.serverState.y);
+        }
+
+        this.updateArrow(player, carrierId === playerId);
+    }
+
+    /**
+     * Announce pickups, drops, captures and returns on the TV
+     */
+    public handleBasketEvent(event: BasketEvent, selfId: string): void {
+        const isSelf = event.playerId === selfId;
+        let message = '';
+        switch (event.type) {
+            case 'pickup':
+                message = isSelf ? 'You have the basket!\nBring it home!' : `${event.name} grabbed the basket!`;
+                break;
+            case 'drop':
+                message = isSelf ? 'You dropped the basket!' : `${event.name} dropped the basket!`;
+                break;
+            case 'capture':
+                message = event.team
+                    ? `${TEAM_LABELS[event.team]} TEAM SCORES!\n${isSelf ? 'You' : event.name} brought the basket home`
+                    : `${event.name} scored!`;
+                break;
+            case 'return':
+                message = 'The basket is back in the middle!';
+                break;
+        }
+        TvManager.getInstance().displayMatchEvent('objective', message);
+    }
+
+    /**
+     * Forget any pending prediction between rounds, the server resets the basket itself
+     */
+    public reset(): void {
+        this.predictedPickupAt = null;
+        this.predictionBlockedUntil = 0;
+    }
+
+    public cleanup(): void {
+        this.clearArena();
+        this.arrow?.destroy();
+        this.arrow = null;
+        this.gameContainer = null;
+    }
+
+    /**
+     * Take the basket as soon as we touch it, then wait for the server to confirm or overrule
+     */
+    private updatePrediction(player: Player | undefined, playerId: string, canPickUp: boolean): void {
+        const now = performance.now();
+        const carrierId = this.serverState!.carrierId;
+
+        if (this.predictedPickupAt !== null) {
+            if (carrierId === playerId) {
+                this.predictedPickupAt = null; // Confirmed, the server state takes over
+            } else if (!player || carrierId !== null || now - this.predictedPickupAt > BASKET_CONSTANTS.PICKUP_TIMEOUT_MS) {
+                this.predictedPickupAt = null;
+                this.predictionBlockedUntil = now + BASKET_CONSTANTS.PICKUP_TIMEOUT_MS;
+            }
+            return;
+        }
+
+        if (
+            canPickUp
+            && player
+            && carrierId === null
+            && now >= this.predictionBlockedUntil
+            && player.getIsBystander() === false
+            && testForAABB(player, this.basket!)
+        ) {
+            this.predictedPickupAt = now;
+        }
+    }
+
+    /**
+     * Carriers are shown the way home, everyone else the way to the basket
+     */
+    private updateArrow(player: Player | undefined, isCarrying: boolean): void {
+        if (!this.arrow || !this.basket) return;
+        const camera = CameraManager.getInstance().getCamera();
+
+        const team = player?.getTeam();
+        const homeBase = team ? this.bases.find(base => base.getTeam() === team) : undefined;
+        if (isCarrying && team && homeBase) {
+            const { x, y } = homeBase.getCenter();
+            this.arrow.pointTo(camera.x + x, camera.y + y, TEAM_COLORS[team]);
+            return;
+        }
+        this.arrow.pointTo(camera.x + this.basket.x, camera.y + this.basket.y - this.basket.height / 2, BASKET_CONSTANTS.ARROW_COLOR);
+    }
+
+    private clearArena(): void {
+        for (const base of this.bases) {
+            this.gameContainer?.removeChild(base);
+            base.destroy();
+        }
+        this.bases = [];
+        if (this.basket) {
+            this.gameContainer?.removeChild(this.basket);
+            this.basket.destroy();
+            this.basket = null;
+        }
+        this.serverState = null;
+        this.predictedPickupAt = null;
+        this.arrow?.hide();
+    }
+}
@@ -1,6 +1,7 @@
 import bugIcon from '../images/bug-icon.png';
 import { ErrorHandler, ErrorType } from '../utils/ErrorHandler';
 import { config } from '../utils/config';
+import { ReplayManager } from './ReplayManager';
 
 // Bug Report Manager constants
 const BUG_REPORT_CONSTANTS = {
@@ -339,6 +340,11 @@ export class BugReportManager {
             const submitButton = this.createSubmitButton();
             modal.appendChild(submitButton);
 
+            // Let the player attach the current match to their report
+            if (ReplayManager.getInstance().hasRecording()) {
+                modal.appendChild(this.createReplayButton());
+            }
+
             modalContainer.appendChild(modal);
             
             // Add to DOM
@@ -616,6 +622,39 @@ export class BugReportManager {
         }
     }
     
+    /**
+     * Create the button that downloads the replay of the current match
+     */
+    private createReplayButton(): HTMLElement {
+        const replayButton = document.createElement('button');
+        replayButton.textContent = 'Download Replay';
+        replayButton.style.cssText = `
+            background: transparent;
+            color: #aaa;
+            border: 1px solid #444;
+            border-radius: 4px;
+            padding: 10px 20px;
+            font-family: 'Pixel', sans-serif;
+            font-size: 14px;
+            cursor: pointer;
+            width: 100%;
+            transition: color 0.2s;
+            margin-top: 10px;
+        `;
+
+        this.addEventListenerSafely(replayButton, 'mouseover', () => {
+            replayButton.style.color = '#fff';
+        });
+        this.addEventListenerSafely(replayButton, 'mouseout', () => {
+            replayButton.style.color = '#aaa';
+        });
+        this.addEventListenerSafely(replayButton, 'click', () => {
+            ReplayManager.getInstance().downloadReplay();
+        });
+
+        return replayButton;
+    }
+
     /**
      * Show error state on the text area
      */
@@ -14,7 +14,13 @@ export interface CameraSettings {
     baseY: number; // Store the non-shaken position
 }
 
+export type SpectatorCameraMode = 'free' | 'follow' | 'overview';
+
+const SPECTATOR_CAMERA_MODES: SpectatorCameraMode[] = ['follow', 'free', 'overview'];
+
 export class CameraManager {
+    private readonly FREE_CAMERA_SPEED = 900; // px per second
+
     private static instance: CameraManager;
     private app: Application | undefined;
 
@@ -32,6 +38,9 @@ export class CameraManager {
         baseX: 0,
         baseY: 0
     };
+    private spectatorMode: SpectatorCameraMode = 'follow';
+    // World position the free camera is centered on
+    private freeCameraCenter = { x: 0, y: 0 };
 
     private constructor() {}
 
@@ -56,9 +65,80 @@ export class CameraManager {
 
     public updateCameraPositionLERP(player: PlayerData): void {
         if (!player.sprite) return;
-        // Calculate target camera position (centered on player)
-        const targetX = -player.sprite.x + this.GAME_WIDTH / 2;
-        const targetY = -player.sprite.y + (this.GAME_HEIGHT / 2);
+        this.moveCameraTowards(player.sprite.x, player.sprite.y);
+    }
+
+    /**
+     * Follow an arbitrary world position, used by the killcam to track the killer
+     */
+    public followWorldPosition(worldX: number, worldY: number): void {
+        this.moveCameraTowards(worldX, worldY);
+    }
+
+    public getSpectatorMode(): SpectatorCameraMode {
+        return this.spectatorMode;
+    }
+
+    public setSpectatorMode(mode: SpectatorCameraMode): void {
+        if (mode === 'free' && this.spectatorMode !== 'free') {
+            // Start panning from wherever the camera is looking right now
+            this.freeCameraCenter = {
+                x: -this.cameraContainer.x + this.GAME_WIDTH / 2,
+                y: -this.cameraContainer.y + this.GAME_HEIGHT / 2,
+            };
+        }
+        this.spectatorMode = mode;
+    }
+
+    public cycleSpectatorMode(): SpectatorCameraMode {
+        const index = SPECTATOR_CAMERA_MODES.indexOf(this.spectatorMode);
+        this.setSpectatorMode(SPECTATOR_CAMERA_MODES[(index + 1) % SPECTATOR_CAMERA_MODES.length]);
+        return this.spectatorMode;
+    }
+
+    /**
+     * Camera update for spectators, call once per tick instead of updateCameraPositionLERP
+     * @param deltaS - Seconds since the last update
+     * @param panInput - Direction to pan in free mode, -1 to 1 per axis
+     * @param followTarget - World position of the followed player, if any
+     */
+    public updateSpectatorCamera(deltaS: number, panInput: { x: number, y: number }, followTarget: { x: number, y: number } | null): void {
+        switch (this.spectatorMode) {
+            case 'free':
+                this.freeCameraCenter.x += panInput.x * this.FREE_CAMERA_SPEED * deltaS;
+                this.freeCameraCenter.y += panInput.y * this.FREE_CAMERA_SPEED * deltaS;
+                this.freeCameraCenter.x = Math.max(this.GAME_BOUNDS.left, Math.min(this.GAME_BOUNDS.right, this.freeCameraCenter.x));
+                this.freeCameraCenter.y = Math.max(this.GAME_BOUNDS.top, Math.min(this.GAME_BOUNDS.bottom, this.freeCameraCenter.y));
+                this.moveCameraTowards(this.freeCameraCenter.x, this.freeCameraCenter.y);
+                break;
+            case 'follow':
+                if (followTarget) {
+                    this.moveCameraTowards(followTarget.x, followTarget.y);
+                } else {
+                    this.moveCameraToOverview();
+                }
+                break;
+            case 'overview':
+                this.moveCameraToOverview();
+                break;
+        }
+    }
+
+    private moveCameraToOverview(): void {
+        // The arena is exactly one screen, center on it
+        this.moveCameraTowards(
+            (this.GAME_BOUNDS.left + this.GAME_BOUNDS.right) / 2,
+            (this.GAME_BOUNDS.top + this.GAME_BOUNDS.bottom) / 2
+        );
+    }
+
+    /**
+     * Smoothly move the camera so the given world position ends up in the center of the screen
+     */
+    private moveCameraTowards(worldX: number, worldY: number): void {
+        // Calculate target camera position (centered on the world position)
+        const targetX = -worldX + this.GAME_WIDTH / 2;
+        const targetY = -worldY + (this.GAME_HEIGHT / 2);
 
 
         // Calculate responsive offsets based on screen size
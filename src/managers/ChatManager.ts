@@ -0,0 +1,272 @@
+import { ChatDisplay } from '../components/ui/ChatDisplay';
+import type { Controller } from '../components/game/systems/Controller';
+import { CHAT_MAX_LENGTH, filterChatMessage } from '../utils/chatFilter';
+import { ErrorHandler, ErrorType } from '../utils/ErrorHandler';
+import { getQuickChatOption, type QuickChatOption } from '../utils/quickChat';
+import type { ChatMessage, QuickChatMessage } from '../types/network.types';
+import { NetworkManager } from './NetworkManager';
+import { SettingsManager } from './SettingsManager';
+
+const CHAT_CONSTANTS = {
+    RATE_LIMIT: {
+        MAX_MESSAGES: 5,
+        WINDOW_MS: 10000,
+    },
+    QUICK_CHAT_COOLDOWN_MS: 3000,
+    Z_INDEX: 1000,
+} as const;
+
+export class ChatManager {
+    private static instance: ChatManager | null = null;
+    private display: ChatDisplay | null = null;
+    private input: HTMLInputElement | null = null;
+    private controller: Controller | null = null;
+    private playerId: string = '';
+    private sentTimestamps: number[] = [];
+    private lastQuickChatAt: number = 0;
+    private isChatOpen: boolean = false;
+
+    private constructor() {
+        // Private constructor for singleton pattern
+    }
+
+    public static getInstance(): ChatManager {
+        if (!ChatManager.instance) {
+            ChatManager.instance = new ChatManager();
+        }
+        return ChatManager.instance;
+    }
+
+    /**
+     * Create the chat log and input. While typing, the controller's custom handlers claim every key
+     * and click so nothing moves the player or throws.
+     */
+    public initialize(controller: Controller): ChatDisplay {
+        this.controller = controller;
+        const claimWhileOpen = () => this.isChatOpen;
+        controller.setCustomKeyDownHandler(claimWhileOpen);
+        controller.setCustomKeyUpHandler(claimWhileOpen);
+        controller.setCustomMouseDownHandler(claimWhileOpen);
+        controller.setCustomMouseUpHandler(claimWhileOpen);
+        this.display = new ChatDisplay();
+        this.createInput();
+        return this.display;
+    }
+
+    public setPlayerId(playerId: string): void {
+        this.playerId = playerId;
+    }
+
+    public isOpen(): boolean {
+        return this.isChatOpen;
+    }
+
+    public open(): void {
+        if (this.isChatOpen || !this.input) return;
+        this.isChatOpen = true;
+        this.controller?.reset(); // Release whatever was held when chat opened
+        this.display?.setExpanded(true);
+        this.input.style.display = 'block';
+        this.input.focus();
+    }
+
+    public close(): void {
+        if (!this.isChatOpen || !this.input) return;
+        this.isChatOpen = false;
+        this.input.value = '';
+        this.input.style.display = 'none';
+        this.input.blur();
+        this.display?.setExpanded(false);
+        this.controller?.reset();
+    }
+
+    /**
+     * Show a message from the server, unless its sender is muted
+     */
+    public receiveMessage = (message: ChatMessage) => {
+        if (!this.display) return;
+        if (SettingsManager.getInstance().isPlayerMuted(message.name)) return;
+
+        const text = filterChatMessage(message.text);
+        if (!text) return;
+
+        const kind = message.playerId === this.playerId ? 'self' : 'player';
+        this.display.addMessage(`${message.name}: ${text}`, kind);
+    }
+
+    /**
+     * Send a quick chat phrase. Returns false while the cooldown is running.
+     */
+    public sendQuickChat(id: number): boolean {
+        if (!getQuickChatOption(id)) return false;
+
+        const now = Date.now();
+        if (now - this.lastQuickChatAt < CHAT_CONSTANTS.QUICK_CHAT_COOLDOWN_MS) {
+            this.addSystemMessage('Quick chat is on cooldown.');
+            return false;
+        }
+
+        try {
+            this.lastQuickChatAt = now;
+            NetworkManager.getInstance().emit('quickChat', { id });
+            return true;
+        } catch (error) {
+            ErrorHandler.getInstance().handleError(
+                error as Error,
+                ErrorType.NETWORK,
+                { phase: 'sendQuickChat' }
+            );
+            return false;
+        }
+    }
+
+    /**
+     * Log a quick chat from the server. Returns the phrase to show, or null if the sender is muted.
+     */
+    public receiveQuickChat(message: QuickChatMessage): QuickChatOption | null {
+        const option = getQuickChatOption(message.id);
+        if (!option) return null;
+        if (SettingsManager.getInstance().isPlayerMuted(message.name)) return null;
+
+        const kind = message.playerId === this.playerId ? 'self' : 'player';
+        this.display?.addMessage(`${message.name}: ${option.text}`, kind);
+        return option;
+    }
+
+    public addSystemMessage(text: string): void {
+        this.display?.addMessage(text, 'system');
+    }
+
+    /**
+     * Fade out old messages and keep the log anchored, call every frame
+     */
+    public update(): void {
+        if (!this.display) return;
+        this.display.update();
+        this.display.fixDisplayPosition();
+    }
+
+    private createInput(): void {
+        const input = document.createElement('input');
+        input.type = 'text';
+        input.maxLength = CHAT_MAX_LENGTH;
+        input.placeholder = 'Say something... (/mute name, /unmute name)';
+        input.style.cssText = `
+            position: fixed;
+            left: 20px;
+            bottom: 20px;
+            width: 400px;
+            max-width: calc(100% - 40px);
+            padding: 8px 12px;
+            font-size: 16px;
+            border: none;
+            border-radius: 4px;
+            background: rgba(37, 37, 37, 0.9);
+            color: white;
+            outline: none;
+            box-sizing: border-box;
+            z-index: ${CHAT_CONSTANTS.Z_INDEX};
+            font-family: 'Pixel', sans-serif;
+            display: none;
+        `;
+
+        input.addEventListener('keydown', (e) => {
+            // Keep typing from reaching the game's own key listeners
+            e.stopPropagation();
+            if (e.key === 'Enter') {
+                e.preventDefault();
+                this.submit(input.value);
+                this.close();
+            } else if (e.key === 'Escape') {
+                e.preventDefault();
+                this.close();
+            }
+        });
+        input.addEventListener('keyup', (e) => e.stopPropagation());
+        input.addEventListener('blur', () => this.close());
+
+        document.body.appendChild(input);
+        this.input = input;
+    }
+
+    private submit(rawText: string): void {
+        const trimmed = rawText.trim();
+        if (!trimmed) return;
+
+        if (trimmed.startsWith('/')) {
+            this.handleCommand(trimmed);
+            return;
+        }
+
+        const text = filterChatMessage(trimmed);
+        if (!text) return;
+
+        if (this.isRateLimited()) {
+            this.addSystemMessage('You are sending messages too fast.');
+            return;
+        }
+
+        try {
+            this.sentTimestamps.push(Date.now());
+            NetworkManager.getInstance().emit('chatMessage', { text });
+        } catch (error) {
+            ErrorHandler.getInstance().handleError(
+                error as Error,
+                ErrorType.NETWORK,
+                { phase: 'sendChatMessage' }
+            );
+        }
+    }
+
+    private isRateLimited(): boolean {
+        const { MAX_MESSAGES, WINDOW_MS } = CHAT_CONSTANTS.RATE_LIMIT;
+        const now = Date.now();
+        this.sentTimestamps = this.sentTimestamps.filter(sentAt => now - sentAt < WINDOW_MS);
+        return this.sentTimestamps.length >= MAX_MESSAGES;
+    }
+
+    private handleCommand(command: string): void {
+        const [name, ...args] = command.slice(1).split(' ');
+        const target = args.join(' ').trim();
+        const settingsManager = SettingsManager.getInstance();
+
+        switch (name.toLowerCase()) {
+            case 'mute':
+                if (!target) {
+                    this.addSystemMessage('Usage: /mute name');
+                    return;
+                }
+                settingsManager.setPlayerMuted(target, true);
+                this.addSystemMessage(`Muted ${target}.`);
+                break;
+            case 'unmute':
+                if (!target) {
+                    this.addSystemMessage('Usage: /unmute name');
+                    return;
+                }
+                settingsManager.setPlayerMuted(target, false);
+                this.addSystemMessage(`Unmuted ${target}.`);
+                break;
+            case 'muted': {
+                const muted = settingsManager.getMutedPlayers();
+                this.addSystemMessage(muted.length > 0 ? `Muted: ${muted.join(', ')}` : 'Nobody is muted.');
+                break;
+            }
+            default:
+                this.addSystemMessage(`Unknown command: /${name}`);
+        }
+    }
+
+    public cleanup(): void {
+        this.close();
+        if (this.input?.parentNode) {
+            this.input.parentNode.removeChild(this.input);
+        }
+        this.input = null;
+        this.display?.destroy();
+        this.display = null;
+        this.controller = null;
+        this.sentTimestamps = [];
+        this.lastQuickChatAt = 0;
+    }
+}
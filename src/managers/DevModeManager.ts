@@ -1,7 +1,13 @@
 import { SettingsManager } from './SettingsManager';
 import { PingDisplay } from '../components/ui/PingDisplay';
 import { FPSDisplay } from '../components/ui/FPSDisplay';
+import { ClockSyncDisplay } from '../components/ui/ClockSyncDisplay';
+import { NetworkGraphOverlay, type NetworkDiagnosticsSample } from '../components/ui/NetworkGraphOverlay';
 import { Application } from 'pixi.js';
+import { NetworkManager } from './NetworkManager';
+import { NETWORK_PRESETS, type NetworkConditions, type NetworkPresetName } from '../utils/NetworkConditionSimulator';
+import { EnemyPlayer } from '../components/game/EnemyPlayer';
+import { config } from '../utils/config';
 
 export class DevModeManager {
     private static instance: DevModeManager;
@@ -11,19 +17,33 @@ export class DevModeManager {
     // Dev displays
     private pingDisplay: PingDisplay | null = null;
     private fpsDisplay: FPSDisplay | null = null;
+    private clockSyncDisplay: ClockSyncDisplay | null = null;
+    private networkGraphOverlay: NetworkGraphOverlay | null = null;
     
     // State tracking
     private isDevModeActive: boolean = false;
     private pingUpdateCounter: number = 0;
+    private networkConditions: NetworkConditions | null = null;
+    private enemyExtrapolationMs: number | null = null;
     
     private constructor() {
         this.settingsManager = SettingsManager.getInstance();
-        this.isDevModeActive = this.settingsManager.getSettings().devMode;
+        const settings = this.settingsManager.getSettings();
+        this.isDevModeActive = settings.devMode;
+        this.networkConditions = NETWORK_PRESETS[settings.networkPreset].conditions;
+        this.enemyExtrapolationMs = settings.enemyExtrapolationMs;
+        this.applyNetworkConditions();
+        this.applyEnemyExtrapolation();
     
         // Listen for dev mode changes from SettingsManager
         this.settingsManager.onSettingsChange((type: string, value: any) => {
             if (type === 'Developer Mode') {
                 this.handleDevModeChange(value);
+            } else if (type === 'Network Conditions') {
+                this.setNetworkPreset(value);
+            } else if (type === 'Enemy Extrapolation') {
+                this.enemyExtrapolationMs = value;
+                this.applyEnemyExtrapolation();
             }
         });
     }
@@ -60,8 +80,50 @@ export class DevModeManager {
         } else {
             this.disableDevMode();
         }
+        this.applyNetworkConditions();
+        this.applyEnemyExtrapolation();
+    }
+
+    /**
+     * Simulate one of the predefined network conditions (dev mode only)
+     */
+    public setNetworkPreset(preset: NetworkPresetName): void {
+        const entry = NETWORK_PRESETS[preset];
+        if (!entry) {
+            console.warn(`DevModeManager: Unknown network preset '${preset}'`);
+            return;
+        }
+        this.setNetworkConditions(entry.conditions);
+    }
+
+    /**
+     * Simulate custom network conditions (dev mode only). Pass null to disable.
+     */
+    public setNetworkConditions(conditions: NetworkConditions | null): void {
+        this.networkConditions = conditions ? { ...conditions } : null;
+        this.applyNetworkConditions();
+    }
+
+    /**
+     * Push the selected conditions to NetworkManager, or clear them outside dev mode
+     */
+    private applyNetworkConditions(): void {
+        NetworkManager.getInstance().setNetworkConditions(
+            this.isDevModeActive ? this.networkConditions : null
+        );
     }
     
+    /**
+     * Override how far enemies are extrapolated past their newest snapshot, outside dev mode the build's default applies
+     */
+    private applyEnemyExtrapolation(): void {
+        EnemyPlayer.setMaxExtrapolationMs(
+            this.isDevModeActive && this.enemyExtrapolationMs !== null
+                ? this.enemyExtrapolationMs
+                : config.ENEMY_MAX_EXTRAPOLATION_MS
+        );
+    }
+
     /**
      * Enable dev mode - create and show displays
      */
@@ -99,11 +161,19 @@ export class DevModeManager {
             this.app.stage.addChild(this.pingDisplay);
         }
         
+        // Create clock sync display if it doesn't exist
+        if (!this.clockSyncDisplay) {
+            this.clockSyncDisplay = new ClockSyncDisplay();
+            this.app.stage.addChild(this.clockSyncDisplay);
+        }
+        
         // Make sure they're visible and positioned correctly
         this.fpsDisplay.visible = true;
         this.pingDisplay.visible = true;
+        this.clockSyncDisplay.visible = true;
         this.fpsDisplay.fixPosition();
         this.pingDisplay.fixPosition();
+        this.clockSyncDisplay.fixPosition();
     }
     
     /**
@@ -121,6 +191,12 @@ export class DevModeManager {
             this.pingDisplay.destroy();
             this.pingDisplay = null;
         }
+
+        if (this.clockSyncDisplay) {
+            this.app?.stage.removeChild(this.clockSyncDisplay);
+            this.clockSyncDisplay.destroy();
+            this.clockSyncDisplay = null;
+        }
     }
     
     /**
@@ -144,14 +220,50 @@ export class DevModeManager {
         this.pingUpdateCounter += deltaMs;
         if (this.pingUpdateCounter >= 1000) {
             this.pingDisplay.updatePing(ping);
+            this.clockSyncDisplay?.updateStats(NetworkManager.getInstance().getClockSyncStats());
             this.pingUpdateCounter = 0;
         }
     }
     
+    /**
+     * Show or hide the network diagnostics graphs (hotkey, works outside dev mode too)
+     */
+    public toggleNetworkGraph(): void {
+        if (!this.app) return;
+
+        if (this.networkGraphOverlay) {
+            this.app.stage.removeChild(this.networkGraphOverlay);
+            this.networkGraphOverlay.destroy();
+            this.networkGraphOverlay = null;
+            return;
+        }
+
+        this.networkGraphOverlay = new NetworkGraphOverlay();
+        this.app.stage.addChild(this.networkGraphOverlay);
+    }
+
+    public isNetworkGraphVisible(): boolean {
+        return this.networkGraphOverlay !== null;
+    }
+
+    /**
+     * Update network diagnostics graphs - call this from GameManager's render loop
+     * @param deltaMs - Time elapsed since last frame in milliseconds
+     * @param sample - Latest network readings
+     */
+    public updateNetworkGraph(deltaMs: number, sample: NetworkDiagnosticsSample): void {
+        if (!this.networkGraphOverlay) return;
+        this.networkGraphOverlay.update(deltaMs, sample);
+    }
+
     /**
      * Fix positions of all dev displays - call when camera updates
      */
     public fixPositions(): void {
+        if (this.networkGraphOverlay) {
+            this.networkGraphOverlay.fixPosition();
+        }
+
         if (!this.isDevModeActive) return;
         
         if (this.fpsDisplay) {
@@ -161,6 +273,10 @@ export class DevModeManager {
         if (this.pingDisplay) {
             this.pingDisplay.fixPosition();
         }
+
+        if (this.clockSyncDisplay) {
+            this.clockSyncDisplay.fixPosition();
+        }
     }
     
     /**
@@ -189,6 +305,9 @@ export class DevModeManager {
      */
     public cleanup(): void {
         this.destroyDevDisplays();
+        if (this.networkGraphOverlay) {
+            this.toggleNetworkGraph();
+        }
         this.pingUpdateCounter = 0;
     }
 }
\ No newline at end of file
@@ -1,8 +1,11 @@
 import { Application, Container } from 'pixi.js';
 import { config } from '../utils/config';
+import { isSameTeam } from '../utils/teams';
+import { isTeamMode } from '../utils/gameModes';
+import { getUnleashProjectileId, getUnleashTargets } from '../utils/powerUps';
 import { Player } from '../components/game/Player';
 import { Controller } from '../components/game/systems/Controller';
-import { NetworkManager } from './NetworkManager';
+import { NetworkManager, type ConnectionState } from './NetworkManager';
 import { EnemyPlayer } from '../components/game/EnemyPlayer';
 import { Projectile } from '../components/game/Projectile';
 import { EnemyProjectile } from '../components/game/EnemyProjectile';
@@ -13,6 +16,11 @@ import { ScoreManager } from '../components/ui/ScoreDisplay';
 import { GameOverDisplay } from '../components/ui/GameOverDisplay';
 import { AmmoBush } from '../components/game/AmmoBush';
 import { KillIndicator } from '../components/ui/KillIndicator';
+import { KillCam } from '../components/game/KillCam';
+import { KillCamBanner } from '../components/ui/KillCamBanner';
+import { QuickChatMenu } from '../components/ui/QuickChatMenu';
+import { MatchPhaseDisplay } from '../components/ui/MatchPhaseDisplay';
+import { MatchTimerDisplay } from '../components/ui/MatchTimerDisplay';
 import { PingDisplay } from '../components/ui/PingDisplay';
 import { FPSDisplay } from '../components/ui/FPSDisplay';
 import { Vector2, type InputVector } from '../components/game/systems/Vector';
@@ -22,10 +30,17 @@ import { AudioManager } from './AudioManager';
 import { DevModeManager } from './DevModeManager';
 import { TvManager } from './TvManager';
 import { BugReportManager } from './BugReportManager';
+import { ReplayManager, type ReplayEvent, type ReplayFile } from './ReplayManager';
+import { ChatManager } from './ChatManager';
+import { BasketManager } from './BasketManager';
+import { HillManager } from './HillManager';
+import { PowerUpManager } from './PowerUpManager';
+import { AmmoManager } from './AmmoManager';
+import { ReplayControls } from '../components/ui/ReplayControls';
 import { loginScreen } from '../components/ui/LoginScreen';
 import { SettingsManager } from './SettingsManager';
-import type { InputPayload, NetworkState, PlayerScore, PlayerServerState, ProjectileServerState, ServerStateUpdate } from '../types/network.types';
-import type { GameState, PlayerData, WorldObjects } from '../types/game.types';
+import type { BasketEvent, HitRejectedPayload, InputPayload, LobbyRequest, MatchPhasePayload, MatchSettings, NetworkState, ReconciliationStats, PlayerScore, PlayerServerState, ProjectileServerState, QuickChatMessage, ServerStateUpdate } from '../types/network.types';
+import type { GameState, PendingCollision, PlayerData, WorldObjects } from '../types/game.types';
 import { SceneManager } from './SceneManager';
 import { CameraManager } from './CameraManager';
 
@@ -47,12 +62,9 @@ interface UIElements {
 }
 
 
-// TODO: Implement death prediction for enemies (and self) on client (with server confirmation)??
-// TODO: Add powerups???
-// Ideas:
-//  Fat Love:
-// - Defense (fat love eats all projectiles)
-// - offense (fat love shoots every projectile he ate in the direction of the mouse)
+// Power-ups live in PowerUpManager, more ideas:
+// - Speed boost
+// - Double jump reset on kill
 
 
 
@@ -63,6 +75,7 @@ export class GameManager {
     private readonly MIN_MS_BETWEEN_TICKS = 1000 / this.SERVER_TICK_RATE; 
     private readonly MIN_S_BETWEEN_TICKS = this.MIN_MS_BETWEEN_TICKS / 1000; 
     private readonly BUFFER_SIZE = 1024;
+    private readonly MAX_REDUNDANT_INPUTS = 5;
     private readonly COLLISION_TIMEOUT = 3000; 
     private readonly GAME_BOUNDS = {
         left: 0,
@@ -78,6 +91,12 @@ export class GameManager {
     private settingsManager: SettingsManager = SettingsManager.getInstance();
     private networkManager: NetworkManager = NetworkManager.getInstance();
     private bugReportManager: BugReportManager = BugReportManager.getInstance();
+    private replayManager: ReplayManager = ReplayManager.getInstance();
+    private chatManager: ChatManager = ChatManager.getInstance();
+    private basketManager: BasketManager = BasketManager.getInstance();
+    private hillManager: HillManager = HillManager.getInstance();
+    private powerUpManager: PowerUpManager = PowerUpManager.getInstance();
+    private ammoManager: AmmoManager = AmmoManager.getInstance();
     private sceneManager: SceneManager = SceneManager.getInstance();
     private audioManager: AudioManager = AudioManager.getInstance();
     private scoreManager: ScoreManager;
@@ -91,11 +110,12 @@ export class GameManager {
         name: '',
         sprite: undefined,
         disableInput: false,
+        isSpectator: false,
         activeProjectiles: new Set<Projectile>(),
     }
 
     private gameState: GameState = {
-        phase: 'active',
+        phase: 'waiting',
         localTick: 0,
         accumulator: 0,
         pendingCollisions: new Map(),
@@ -118,6 +138,32 @@ export class GameManager {
         enemyProjectileStates: new Map<string, ProjectileServerState>(),
         inputBuffer: [],
         stateBuffer: [],
+        unacknowledgedInputTicks: [],
+        connectionInterrupted: false,
+    };
+
+    private spectatorTargetId: string | null = null;
+    private replayControls: ReplayControls | null = null;
+
+    private killCam: KillCam;
+    private killCamBanner: KillCamBanner;
+    private quickChatMenu: QuickChatMenu;
+    private matchPhaseDisplay: MatchPhaseDisplay;
+    private matchTimerDisplay: MatchTimerDisplay;
+    private matchSettings: MatchSettings | null = null;
+    // Servers without match phases never send matchPhase, the match is simply always active
+    private serverAnnouncesPhases: boolean = false;
+    private readonly MATCH_WARNING_MS = 30000;
+    private matchWarningShown: boolean = false;
+    // Most recent enemy projectile that hit us, tells the killcam who to follow
+    private lastHitOnSelf: { projectileId: string, ownerId: string } | null = null;
+    // Kills we already celebrated on prediction, the server confirmed "+1" for them is skipped
+    private unconfirmedPredictedKills: number = 0;
+
+    private reconciliationStats: ReconciliationStats = {
+        corrections: 0,
+        correctionDistance: 0,
+        tickGap: 0,
     };
 
     private entities: EntityContainers = {
@@ -149,6 +195,12 @@ export class GameManager {
         this.gameContainer = new Container();
         this.gameContainer.sortableChildren = true; // Enable z-index sorting
         this.scoreManager = new ScoreManager(this.showKillIndicator.bind(this));
+        this.killCam = new KillCam();
+        this.gameContainer.addChild(this.killCam);
+        this.killCamBanner = new KillCamBanner();
+        this.quickChatMenu = new QuickChatMenu();
+        this.matchPhaseDisplay = new MatchPhaseDisplay();
+        this.matchTimerDisplay = new MatchTimerDisplay();
         // Initialize ObjectPools after gameContainer is created
         this.entities.killIndicatorPool = new ObjectPool<KillIndicator>(
             () => new KillIndicator(0, 0),
@@ -210,43 +262,88 @@ export class GameManager {
         this.bugReportManager.onModalClose(() => this.ui.overlayActive = false);
 
 
-        const { name, region } = await loginScreen();
-        this.player.name = name;
+        // Ready before networking, the first match phase already says whether to build the arena
+        const objectiveArrow = this.basketManager.initialize(this.gameContainer);
+        this.hillManager.initialize(this.gameContainer);
+        const powerUpDisplay = this.powerUpManager.initialize(this.gameContainer);
+
+        // Back to the login screen whenever the player leaves the matchmaking queue
+        let joinedMatch = false;
+        while (!joinedMatch) {
+            const { name, region, spectate, replay, lobby } = await loginScreen();
+            this.player.name = name;
+            this.player.isSpectator = spectate;
+            if (replay) {
+                this.startReplay(replay);
+                break;
+            }
+            joinedMatch = await this.initializeNetworking(region, lobby);
+        }
+
+        if (this.player.isSpectator) {
+            // Spectators always see the scoreboard
+            this.scoreManager.showDisplay();
+        }
 
         this.setupControlListeners();
+        if (!this.replayManager.isPlayingBack()) {
+            this.setupChat();
+        }
         this.setupGameLoop();
 
-
-
-        await this.initializeNetworking(region);
         this.sceneManager.initializeTvManager();
         this.app.stage.addChild(this.cameraManager.getCamera());
         this.app.stage.addChild(this.scoreManager);
+        this.app.stage.addChild(this.killCamBanner);
+        this.app.stage.addChild(this.matchPhaseDisplay);
+        this.app.stage.addChild(this.matchTimerDisplay);
+        this.app.stage.addChild(objectiveArrow);
+        this.app.stage.addChild(powerUpDisplay);
 
         TvManager.getInstance().startTv();
     }
 
-    private async initializeNetworking(region: string): Promise<void> {
+    /**
+     * Returns false if the player left the queue before a match was found
+     */
+    private async initializeNetworking(region: string, lobby?: LobbyRequest): Promise<boolean> {
         try {
             const networkManager = NetworkManager.getInstance();
             const matchData = await networkManager.initialize({ 
-                region, playerName: this.player.name, serverUrl: config.GAME_SERVER_URL 
+                region, 
+                playerName: this.player.name, 
+                spectate: this.player.isSpectator,
+                lobby,
+                serverUrl: config.GAME_SERVER_URL,
+                localServer: config.USE_LOCAL_SERVER ? {
+                    platforms: this.world.platforms.map(platform => platform.getPlatformBounds()),
+                    gameBounds: this.GAME_BOUNDS,
+                    mode: config.LOCAL_GAME_MODE,
+                    ammoBush: this.world.ammoBush.getHarvestZone(),
+                } : undefined,
             });
 
+            if (!matchData) return false;
             this.player.id = matchData.playerId;
+            this.replayManager.startRecording(matchData, this.player.name);
+
+            // No phase means we rejoined a match that is already running
+            this.serverAnnouncesPhases = matchData.phase !== undefined;
+            if (matchData.phase && matchData.phase.phase !== 'active') {
+                this.handleMatchPhase(matchData.phase);
+            } else {
+                this.gameState.phase = 'active';
+            }
 
+            networkManager.onConnectionStateChange(this.handleConnectionStateChange);
             networkManager.on('gameOver', this.handleGameOver);
+            networkManager.on('hitRejected', this.handleHitRejected);
             networkManager.on('disconnect', this.handleConnectionLost);
-            networkManager.on('stateUpdate', (state: ServerStateUpdate) => {
-                this.integratePartialPlayerUpdates(state);
-                this.integrateEnemyPositions(state);
-                this.integratePartialProjectileUpdates(state);
+            networkManager.on('stateUpdate', this.handleStateUpdate);
+            networkManager.on('matchPhase', this.handleMatchPhase);
+            networkManager.on('basketEvent', this.handleBasketEvent);
 
-                this.network.latestServerSnapshot.sTick = state.sTick;
-                this.network.latestServerSnapshot.sTime = state.sTime;
-                this.network.latestServerSnapshot.projectiles = state.projectiles;
-
-            });
+            return true;
 
         } catch (error) {
             ErrorHandler.getInstance().handleError(
@@ -259,6 +356,118 @@ export class GameManager {
     }
 
 
+    private handleStateUpdate = (state: ServerStateUpdate) => {
+        this.replayManager.recordStateUpdate(state);
+
+        this.integratePartialPlayerUpdates(state);
+        this.integrateEnemyPositions(state);
+        this.integratePartialProjectileUpdates(state);
+        this.basketManager.setServerState(state.basket);
+        this.hillManager.setServerState(state.hill);
+        this.powerUpManager.setServerState(state.powerUps);
+
+        this.network.latestServerSnapshot.sTick = state.sTick;
+        this.network.latestServerSnapshot.sTime = state.sTime;
+        this.network.latestServerSnapshot.projectiles = state.projectiles;
+    }
+
+    /**
+     * Watch a recorded match. Nothing connects, the recorded events go through the same
+     * handlers as live network events and the recording player is shown like any other.
+     */
+    private startReplay(replay: ReplayFile): void {
+        this.player.id = '';
+        this.player.isSpectator = true;
+        this.spectatorTargetId = replay.playerId;
+        this.cameraManager.setSpectatorMode('follow');
+
+        this.replayManager.startPlayback(replay);
+        this.gameState.phase = 'active'; // Until a recorded matchPhase says otherwise
+        this.networkManager.setServerTimeOffsetOverride(this.replayManager.getPlaybackServerTime() - performance.now());
+
+        this.replayControls = new ReplayControls({
+            onTogglePause: () => {
+                const state = this.replayManager.getPlaybackState();
+                if (!state) return;
+                if (state.paused && state.time >= state.duration) {
+                    this.seekReplay(0);
+                }
+                this.replayManager.setPaused(!state.paused);
+            },
+            onSeek: (time) => this.seekReplay(time),
+            onSpeedChange: (speed) => this.replayManager.setSpeed(speed),
+            onExit: () => window.location.reload(),
+        });
+        this.replayControls.show();
+    }
+
+    private advanceReplay(): void {
+        for (const event of this.replayManager.advancePlayback(this.MIN_MS_BETWEEN_TICKS)) {
+            this.applyReplayEvent(event);
+        }
+        this.networkManager.setServerTimeOffsetOverride(this.replayManager.getPlaybackServerTime() - performance.now());
+
+        const state = this.replayManager.getPlaybackState();
+        if (state) this.replayControls?.update(state);
+    }
+
+    private seekReplay(time: number): void {
+        const { rewound, events } = this.replayManager.seekPlayback(time);
+        if (rewound) {
+            this.resetReplayWorld();
+        }
+        for (const event of events) {
+            this.applyReplayEvent(event);
+        }
+        this.networkManager.setServerTimeOffsetOverride(this.replayManager.getPlaybackServerTime() - performance.now());
+    }
+
+    private applyReplayEvent(event: ReplayEvent): void {
+        switch (event.type) {
+            case 'stateUpdate':
+                this.handleStateUpdate(event.data);
+                break;
+            case 'gameOver':
+                this.handleGameOver(event.data);
+                break;
+            case 'matchReset':
+                this.handleMatchReset();
+                break;
+            case 'matchPhase':
+                this.handleMatchPhase(event.data);
+                break;
+            case 'basketEvent':
+                this.handleBasketEvent(event.data);
+                break;
+            case 'input':
+                // Kept in the file for bug reports, the recorded player's movement is already in the snapshots
+                break;
+        }
+    }
+
+    /**
+     * Back to an empty world before replaying events from the start
+     */
+    private resetReplayWorld(): void {
+        this.handleMatchReset();
+        // Recordings that start mid-match have no phase event
+        this.gameState.phase = 'active';
+        this.matchPhaseDisplay.hide();
+
+        for (const [_, enemy] of this.entities.enemies) {
+            this.removeEnemyGraphic(enemy);
+            enemy.destroy();
+        }
+        this.entities.enemies.clear();
+
+        this.network.latestServerSnapshot = {
+            players: [],
+            projectiles: [],
+            sTick: 0,
+            sTime: 0
+        };
+    }
+
     private integratePartialPlayerUpdates(state: ServerStateUpdate): void {
         const updatedPlayers = [];
 
@@ -308,18 +517,74 @@ export class GameManager {
         }
     }
 
+    private setupChat(): void {
+        const chatDisplay = this.chatManager.initialize(this.controller);
+        this.chatManager.setPlayerId(this.player.id);
+        this.app.stage.addChild(chatDisplay);
+        this.app.stage.addChild(this.quickChatMenu);
+        this.networkManager.on('chatMessage', this.chatManager.receiveMessage);
+        this.networkManager.on('quickChat', this.handleQuickChat);
+    }
+
+    /**
+     * Speech bubble over whoever sent the quick chat, plus its voice clip if it has one
+     */
+    private handleQuickChat = (message: QuickChatMessage) => {
+        try {
+            const option = this.chatManager.receiveQuickChat(message);
+            if (!option) return;
+
+            if (message.playerId === this.player.id) {
+                this.player.sprite?.showSpeechBubble(option.text);
+            } else {
+                // Spectators have no sprite, the chat log line is all they get
+                this.entities.enemies.get(message.playerId)?.showSpeechBubble(option.text);
+            }
+
+            if (option.voiceClip) {
+                this.audioManager.play(option.voiceClip);
+            }
+        } catch (error) {
+            ErrorHandler.getInstance().handleError(
+                error as Error,
+                ErrorType.GAME_STATE,
+                { phase: 'handleQuickChat', playerId: message.playerId }
+            );
+        }
+    }
+
     private setupControlListeners(): void {
         // Add tab key event listener for spectator mode toggle
         window.addEventListener('keydown', (e) => {
             if (e.key === 'Tab') {
                 e.preventDefault(); // Prevent default tab behavior (focus switching)
                 this.showScoreBoard();
+            } else if (e.key === 'F3') {
+                e.preventDefault(); // Prevent browser search
+                this.devManager.toggleNetworkGraph();
+            } else if (e.key === 'F8') {
+                e.preventDefault();
+                this.replayManager.downloadReplay();
+            } else if (e.key === 'Enter' && !this.ui.overlayActive && !this.replayManager.isPlayingBack()) {
+                e.preventDefault(); // Don't type the Enter into the chat input
+                this.quickChatMenu.close();
+                this.chatManager.open();
+            } else if (e.code === 'KeyV' && !this.ui.overlayActive && !this.replayManager.isPlayingBack()) {
+                this.quickChatMenu.toggle();
+            } else if (this.quickChatMenu.isOpen() && (e.key === 'Escape' || /^Digit[1-9]$/.test(e.code))) {
+                if (e.key !== 'Escape') {
+                    this.chatManager.sendQuickChat(Number(e.code.slice('Digit'.length)));
+                }
+                this.quickChatMenu.close();
+            } else if (this.player.isSpectator) {
+                this.handleSpectatorKey(e);
             } else if (e.key === 'e' || e.key === 'E') {
                 this.controller.resetMouse()
                 if (this.player.sprite) {
                     this.world.ammoBush.handleAmmoBushInteraction(
                         this.player.sprite,
-                        () => this.networkManager.emit('toggleBystander', true)
+                        () => this.networkManager.emit('toggleBystander', true),
+                        () => this.harvestAmmo()
                     );
                 }
             }
@@ -333,14 +598,27 @@ export class GameManager {
         });
     }
 
+    /**
+     * Refill at the ammo bush, predicted so the count is back up before the server answers
+     */
+    private harvestAmmo(): void {
+        this.ammoManager.harvest(performance.now() + this.networkManager.getServerTimeOffset());
+        this.networkManager.emit('harvestAmmo');
+    }
+
     private handleGameOver = (scores: PlayerScore[]) => {
         try {
+            this.replayManager.recordGameOver(scores);
             this.controller.resetMouse();
             this.gameState.phase = 'ended';
             this.gameState.pendingCollisions.clear();
+            this.stopKillCam();
+            this.matchPhaseDisplay.hide();
             this.ui.gameOverDisplay = new GameOverDisplay(scores, this.player.id);
             this.app.stage.addChild(this.ui.gameOverDisplay);
-            this.networkManager.once('matchReset', this.handleMatchReset);
+            if (!this.replayManager.isPlayingBack()) {
+                this.networkManager.once('matchReset', this.handleMatchReset);
+            }
         } catch (error) {
             ErrorHandler.getInstance().handleError(
                 error as Error,
@@ -352,7 +630,8 @@ export class GameManager {
 
     private handleMatchReset = () => {
         try {
-            this.audioManager.playRandomMatchStartSound();
+            this.replayManager.recordMatchReset();
+            this.stopKillCam();
             
             // Reset score manager to clear all scores
             this.scoreManager.reset();
@@ -371,12 +650,18 @@ export class GameManager {
             
             this.entities.enemyProjectileSprites.clear();
             this.gameState.pendingCollisions.clear();
+            this.unconfirmedPredictedKills = 0;
+            this.basketManager.reset();
+            this.ammoManager.reset();
             if (this.ui.gameOverDisplay) {
                 this.app.stage.removeChild(this.ui.gameOverDisplay);
                 this.ui.gameOverDisplay.destroy();
                 this.ui.gameOverDisplay = null;
             }
-            this.gameState.phase = 'active';
+            // A server with phases follows up with matchPhase to count the next round in,
+            // without them the next match starts right away
+            this.gameState.phase = this.serverAnnouncesPhases ? 'waiting' : 'active';
+            this.resetMatchWarning();
         } catch (error) {
             ErrorHandler.getInstance().handleError(
                 error as Error,
@@ -387,13 +672,144 @@ export class GameManager {
     }
 
 
-    private handleConnectionLost = (reason: string, _region: string) => {
+    /**
+     * Server moved the match to a new phase. Shooting only works once it is active.
+     */
+    private handleMatchPhase = (matchPhase: MatchPhasePayload) => {
+        try {
+            this.replayManager.recordMatchPhase(matchPhase);
+            this.serverAnnouncesPhases = true;
+            const serverTime = performance.now() + this.networkManager.getServerTimeOffset();
+            this.matchSettings = matchPhase.settings;
+            this.matchTimerDisplay.setMatch(matchPhase.settings, matchPhase.matchEndsAt);
+            this.scoreManager.setMatchSettings(matchPhase.settings);
+            this.basketManager.setMatchSettings(matchPhase.settings);
+            this.hillManager.setMatchSettings(matchPhase.settings);
+            if (matchPhase.phase !== 'active') {
+                this.resetMatchWarning();
+            }
+
+            switch (matchPhase.phase) {
+                case 'waiting':
+                    this.gameState.phase = 'waiting';
+                    this.matchPhaseDisplay.showWaiting(matchPhase.playerCount, matchPhase.minPlayers);
+                    break;
+                case 'countdown':
+                    this.gameState.phase = 'countdown';
+                    this.matchPhaseDisplay.showCountdown(matchPhase.countdownEndsAt ?? serverTime, serverTime);
+                    break;
+                case 'active':
+                    if (this.gameState.phase === 'active') return;
+                    this.gameState.phase = 'active';
+                    this.matchPhaseDisplay.showFight();
+                    this.audioManager.playRandomMatchStartSound();
+                    break;
+            }
+        } catch (error) {
+            ErrorHandler.getInstance().handleError(
+                error as Error,
+                ErrorType.GAME_STATE,
+                { event: 'matchPhase', phase: matchPhase.phase }
+            );
+        }
+    }
+
+    /**
+     * Capture the basket pickups, drops, captures and returns
+     */
+    private handleBasketEvent = (event: BasketEvent) => {
+        try {
+            this.replayManager.recordBasketEvent(event);
+            this.basketManager.handleBasketEvent(event, this.player.id);
+        } catch (error) {
+            ErrorHandler.getInstance().handleError(
+                error as Error,
+                ErrorType.GAME_STATE,
+                { event: 'basketEvent', type: event.type }
+            );
+        }
+    }
+
+    /**
+     * Final seconds of the match: red clock, warning sound and a heads-up on the TV
+     */
+    private updateMatchTimer(serverTime: number): void {
+        if (this.matchSettings && isTeamMode(this.matchSettings.mode)) {
+            this.matchTimerDisplay.setLeadingTeam(this.scoreManager.getLeadingTeam());
+        } else {
+            this.matchTimerDisplay.setLeader(this.scoreManager.getLeader(), this.player.id);
+        }
+        this.matchTimerDisplay.update(serverTime);
+
+        if (this.gameState.phase !== 'active' || this.matchWarningShown) return;
+        const remainingMs = this.matchTimerDisplay.getRemainingMs(serverTime);
+        if (remainingMs === null || remainingMs > this.MATCH_WARNING_MS) return;
+
+        this.matchWarningShown = true;
+        this.matchTimerDisplay.setWarning(true);
+        this.audioManager.playMatchWarningSound();
+        TvManager.getInstance().displayMatchEvent('warning', `${Math.ceil(remainingMs / 1000)} seconds left!`);
+    }
+
+    private resetMatchWarning(): void {
+        this.matchWarningShown = false;
+        this.matchTimerDisplay.setWarning(false);
+    }
+
+    private handleConnectionLost = (reason: string) => {
         console.log('inside handleConnectionLost from GameManager');
         if (reason === "io server disconnect") {
             this.cleanupSession();
         }
     }
 
+    /**
+     * The server didn't accept one of our predicted hits, roll back its damage
+     */
+    private handleHitRejected = ({ enemyId, projectileId, reason }: HitRejectedPayload) => {
+        console.warn(`Hit on ${enemyId} with projectile ${projectileId} rejected: ${reason}`);
+        const pendingCollision = this.gameState.pendingCollisions.get(enemyId);
+        // Without a matching prediction no damage was applied for this projectile (e.g. Fat Love ate it)
+        if (pendingCollision && pendingCollision.projectileId === projectileId) {
+            this.entities.enemies.get(enemyId)?.undoDamage();
+            this.rollBackPredictedKill(pendingCollision);
+            this.gameState.pendingCollisions.delete(enemyId);
+        }
+    }
+
+    /**
+     * Freeze local simulation while the connection is down and resync with the server once it is back
+     */
+    private handleConnectionStateChange = (state: ConnectionState) => {
+        if (state === 'reconnecting' || state === 'resuming' || state === 'failed') {
+            this.network.connectionInterrupted = true;
+            this.controller.reset();
+            return;
+        }
+
+        if (state === 'connected' && this.network.connectionInterrupted) {
+            this.network.connectionInterrupted = false;
+            this.player.id = this.networkManager.getPlayerId() ?? this.player.id;
+            this.chatManager.setPlayerId(this.player.id);
+
+            // Inputs predicted before the outage can't be reconciled anymore. Rewinding the local tick
+            // makes the next reconciliation snap to the server position and adopt its tick.
+            this.gameState.localTick = 0;
+            this.network.inputBuffer = [];
+            this.network.stateBuffer = [];
+            this.network.unacknowledgedInputTicks = [];
+            this.ammoManager.reset();
+            this.network.latestServerSnapshotProcessed = {
+                players: [],
+                projectiles: [],
+                sTick: 0,
+                sTime: 0
+            };
+            this.gameState.pendingCollisions.clear();
+            this.controller.reset();
+        }
+    }
+
 
 
 
@@ -405,6 +821,8 @@ export class GameManager {
                 enemyGraphic.onPositionUpdate({ 
                     x: enemyPlayer.x, 
                     y: enemyPlayer.y, 
+                    vx: enemyPlayer.vx,
+                    vy: enemyPlayer.vy,
                     timestamp: latestServerSnapshot.sTime
                 });
             }
@@ -420,12 +838,14 @@ export class GameManager {
     
 
     private showKillIndicator(playerId: string): void {
-        if (playerId === this.player.id && this.player.sprite) {
-            // Player kill
-            const indicator = this.entities.killIndicatorPool.getElement();
-            indicator.initialize(this.player.sprite.x, this.player.sprite.y);
-            this.audioManager.playRandomKillSound();
+        if (playerId === this.player.id && this.unconfirmedPredictedKills > 0) {
+            // Shown when we predicted the kill
+            this.unconfirmedPredictedKills--;
+            return;
+        }
 
+        if (playerId === this.player.id) {
+            this.showSelfKillIndicator();
         } else {
             // Enemy kill
             const enemyGraphic = this.entities.enemies.get(playerId);
@@ -436,6 +856,13 @@ export class GameManager {
         }
     }
     
+    private showSelfKillIndicator(): void {
+        if (!this.player.sprite) return;
+        const indicator = this.entities.killIndicatorPool.getElement();
+        indicator.initialize(this.player.sprite.x, this.player.sprite.y);
+        this.audioManager.playRandomKillSound();
+    }
+    
     // TODO: Can we avoid calling new Set() here?
     // If called often (integrateStateUpdates) it could cause a memory issue.
     private integrateProjectileUpdates(): void {
@@ -460,6 +887,25 @@ export class GameManager {
         }    
     }
 
+    /**
+     * Take the enemy out of the game right away, confirmed by isDead in a later stateUpdate
+     * or rolled back with the pending collision
+     */
+    private predictEnemyDeath(enemyGraphic: EnemyPlayer, killedBySelf: boolean): void {
+        enemyGraphic.predictDeath();
+        if (killedBySelf) {
+            // Not through showKillIndicator, it would swallow this kill while another is unconfirmed
+            this.showSelfKillIndicator();
+            this.unconfirmedPredictedKills++;
+        }
+    }
+
+    private rollBackPredictedKill(collision: PendingCollision): void {
+        if (collision.killedBySelf && this.unconfirmedPredictedKills > 0) {
+            this.unconfirmedPredictedKills--;
+        }
+    }
+
     private cleanupPendingCollisions(): void {
         const now = Date.now();
         const { pendingCollisions } = this.gameState;
@@ -476,6 +922,7 @@ export class GameManager {
                         graphic.revertPrediction();
                     }
                 }
+                this.rollBackPredictedKill(collision);
                 this.gameState.pendingCollisions.delete(id);
             }
         }
@@ -525,6 +972,12 @@ export class GameManager {
 
             DevModeManager.getInstance().cleanup();
             BugReportManager.getInstance().cleanup();
+            ChatManager.getInstance().cleanup();
+            this.quickChatMenu.close();
+            BasketManager.getInstance().cleanup();
+            HillManager.getInstance().cleanup();
+            PowerUpManager.getInstance().cleanup();
+            AmmoManager.getInstance().cleanup();
             SceneManager.getInstance().cleanup();
             this.scoreManager.destroy();
 
@@ -544,6 +997,8 @@ export class GameManager {
             if (player.isDead === true) {
                 const enemyPlayerGraphic = this.entities.enemies.get(player.id);
                 if (enemyPlayerGraphic?.isPlayerAlive() === true) {
+                    // Confirms a predicted death, if there was one
+                    this.gameState.pendingCollisions.delete(player.id);
                     enemyPlayerGraphic?.kill();
                 }
             }
@@ -576,9 +1031,13 @@ export class GameManager {
                     enemyPlayer?.by, 
                     enemyPlayer.name
                 );
+                graphic.setPlatforms(this.world.platforms);
+                graphic.setGameBounds(this.GAME_BOUNDS);
+                graphic.setTeam(enemyPlayer.team);
                 this.entities.enemies.set(enemyPlayer.id, graphic);
             } else {
                 // Existing enemy player, update state
+                enemyGraphic.setTeam(enemyPlayer.team);
                 if (enemyGraphic.isPlayerAlive() === false && enemyPlayer.isDead === false) {
                     // Respawn a player that was dead but has since respawned server side
                     enemyGraphic.respawn(
@@ -627,6 +1086,7 @@ export class GameManager {
 
 
     private integrateSelfUpdate(selfData: PlayerServerState | undefined): void {
+        if (this.player.isSpectator) return; // Spectators never get a body
 
         if (selfData?.isDead === true && this.player.sprite) {
             // Clean up the players sprite if no self data exists
@@ -634,6 +1094,7 @@ export class GameManager {
             return;
         }
         if (!selfData) return;
+        this.ammoManager.setServerState(selfData);
         if (selfData?.isDead === false && !this.player.sprite) {
             // Create new player sprite if it doesn't exist
             
@@ -643,6 +1104,7 @@ export class GameManager {
 
         const bystanderStatus = selfData.by;
         this.player.sprite.setIsBystander(bystanderStatus);
+        this.player.sprite.setTeam(selfData.team);
         if (this.player.sprite.getIsBystander() === false && selfData.by ===  false) {
             // Only update health if we don't have a pending collision
             this.updatePlayerHealth(selfData);
@@ -652,14 +1114,87 @@ export class GameManager {
     private handlePlayerDeath() {
         this.gameState.pendingCollisions.delete(this.player.id);
         if (this.player.sprite) {
+            const deathPosition = { x: this.player.sprite.x, y: this.player.sprite.y };
+            if (!this.player.sprite.isPredictedDead()) {
+                this.audioManager.playRandomDeathSound();
+            }
             this.app.stage.removeChild(this.player.sprite);
             this.player.sprite.destroy();
             this.player.sprite = undefined;
-            this.audioManager.playRandomDeathSound();
+            this.startKillCam(deathPosition);
         }
         this.player.sprite = undefined;
     }
 
+    /**
+     * Snapshot of what is on screen this tick for the killcam buffer
+     */
+    private recordKillCamFrame(): void {
+        if (!this.player.sprite) return;
+
+        const players = [{
+            id: this.player.id,
+            name: this.player.name,
+            team: this.player.sprite.getTeam(),
+            x: this.player.sprite.x,
+            y: this.player.sprite.y,
+            alive: !this.player.sprite.isPredictedDead(),
+        }];
+        for (const [id, enemy] of this.entities.enemies) {
+            players.push({ id, name: enemy.getName(), team: enemy.getTeam(), x: enemy.x, y: enemy.y, alive: enemy.isPlayerAlive() });
+        }
+
+        const projectiles = [];
+        for (const projectile of this.player.activeProjectiles) {
+            projectiles.push({ id: projectile.getId(), ownerId: this.player.id, x: projectile.x, y: projectile.y });
+        }
+        for (const [id, projectile] of this.entities.enemyProjectileSprites) {
+            projectiles.push({ id, ownerId: projectile.getOwnerId(), x: projectile.x, y: projectile.y });
+        }
+
+        this.killCam.record({ players, projectiles });
+    }
+
+    private startKillCam(deathPosition: { x: number, y: number }): void {
+        let killerId = this.lastHitOnSelf?.ownerId ?? null;
+        const lethalProjectileId = this.lastHitOnSelf?.projectileId ?? null;
+        this.lastHitOnSelf = null;
+
+        if (!killerId || !this.entities.enemies.has(killerId)) {
+            // Hit wasn't predicted locally, blame whoever owns the closest tomato
+            let closestDistance = Infinity;
+            killerId = null;
+            for (const projectile of this.entities.enemyProjectileSprites.values()) {
+                const distance = Vector2.len(projectile.x - deathPosition.x, projectile.y - deathPosition.y);
+                if (distance < closestDistance && this.entities.enemies.has(projectile.getOwnerId())) {
+                    closestDistance = distance;
+                    killerId = projectile.getOwnerId();
+                }
+            }
+        }
+
+        this.killCam.start({ victimId: this.player.id, killerId, lethalProjectileId });
+        if (!this.killCam.isActive()) return;
+
+        const killer = killerId ? this.entities.enemies.get(killerId) : undefined;
+        this.killCamBanner.show(killer ? killer.getName() : null);
+        this.setLiveEntitiesVisible(false);
+    }
+
+    private stopKillCam(): void {
+        if (!this.killCam.isActive()) return;
+        this.killCam.stop();
+        this.killCamBanner.hide();
+        this.setLiveEntitiesVisible(true);
+    }
+
+    // The killcam draws its own copies, hide the live world so they don't overlap
+    private setLiveEntitiesVisible(visible: boolean): void {
+        for (const enemy of this.entities.enemies.values()) enemy.visible = visible && enemy.isPlayerAlive() && !enemy.isPredictedDead();
+        for (const projectile of this.entities.enemyProjectileSprites.values()) projectile.visible = visible;
+        for (const projectile of this.player.activeProjectiles) projectile.visible = visible;
+    }
+
     private spawnPlayer(data: PlayerServerState): void {
 
         if (data.tick === undefined || data.x === undefined || data.y === undefined) {
@@ -672,11 +1207,14 @@ export class GameManager {
             return;
         }
 
+        this.stopKillCam();
+
         // Force immediate reconciliation without resimulation.
         // This is an attempt to fix the issue where the player appears to respawn
         // in the wrong location after dying. (likely they spawn correctly but resimulate old input)
         this.gameState.localTick = data.tick;
         this.network.stateBuffer = [];
+        this.network.unacknowledgedInputTicks = [];
         this.network.latestServerSnapshotProcessed = {
             players: [],
             projectiles: [],
@@ -696,6 +1234,7 @@ export class GameManager {
         const bystanderStatus = data.by;
         this.player.sprite.setPlatforms(this.world.platforms);
         this.player.sprite.setIsBystander(bystanderStatus);
+        this.player.sprite.setTeam(data.team);
         this.player.sprite.setLastProcessedInputVector({ x: 0, y: 0 });
         
         // Start invulnerability on spawn
@@ -780,6 +1319,8 @@ export class GameManager {
         }
 
         const tick = selfData.tick; 
+        this.acknowledgeInputs(tick);
+        this.reconciliationStats.tickGap = this.gameState.localTick - tick;
 
 
         let serverStateBufferIndex = tick % this.BUFFER_SIZE;
@@ -808,7 +1349,10 @@ export class GameManager {
 
         const positionError = Vector2.subtractPositions({ x: selfData.x, y: selfData.y }, clientPosition);
 
-        if (Vector2.len(positionError.x, positionError.y) > 0.0001) {
+        const errorDistance = Vector2.len(positionError.x, positionError.y);
+        if (errorDistance > 0.0001) {
+            this.reconciliationStats.corrections++;
+            this.reconciliationStats.correctionDistance += errorDistance;
             this.player.sprite.syncPosition(selfData.x, selfData.y, selfData.vx, selfData.vy);
             this.network.stateBuffer[serverStateBufferIndex].position = { x: selfData.x, y: selfData.y };
             let tickToResimulate = tick + 1;
@@ -830,8 +1374,11 @@ export class GameManager {
 
     private handleTick(): void {
         try {
-            
-            if (this.player.sprite) {
+            if (this.replayManager.isPlayingBack()) {
+                this.advanceReplay();
+            }
+
+            if (this.player.sprite && !this.network.connectionInterrupted) {
                 if (this.network.latestServerSnapshot.sTick > this.network.latestServerSnapshotProcessed.sTick) {
                     this.handleReconciliation();
                 }
@@ -843,6 +1390,21 @@ export class GameManager {
                 this.scoreManager.fixDisplayPosition();
                 DevModeManager.getInstance().fixPositions();
 
+            } else if (this.killCam.isActive()) {
+                const followPosition = this.killCam.update();
+                if (followPosition) {
+                    this.cameraManager.followWorldPosition(followPosition.x, followPosition.y);
+                }
+                // Entities that appeared since the killcam started
+                this.setLiveEntitiesVisible(false);
+                this.killCamBanner.fixPosition();
+                this.scoreManager.fixDisplayPosition();
+                DevModeManager.getInstance().fixPositions();
+
+            } else if (this.player.isSpectator) {
+                this.updateSpectatorCamera();
+                this.scoreManager.fixDisplayPosition();
+                DevModeManager.getInstance().fixPositions();
             }
 
             this.integrateStateUpdate();
@@ -854,7 +1416,31 @@ export class GameManager {
                     enemy.update();
                 }
             })
-            this.world.ammoBush.update(this.player.sprite);
+            this.ammoManager.update(
+                this.player.sprite,
+                this.world.ammoBush,
+                performance.now() + this.networkManager.getServerTimeOffset()
+            );
+            this.basketManager.update(
+                this.player.sprite,
+                this.player.id,
+                this.entities.enemies,
+                this.gameState.phase === 'active' && !this.network.connectionInterrupted
+            );
+            this.hillManager.update(
+                this.network.latestServerSnapshot.players,
+                this.player.sprite,
+                this.player.id,
+                this.entities.enemies
+            );
+            this.powerUpManager.update(
+                this.network.latestServerSnapshot.players,
+                this.player.sprite,
+                this.player.id,
+                this.entities.enemies,
+                performance.now() + this.networkManager.getServerTimeOffset()
+            );
+            this.recordKillCamFrame();
         } catch (error) {
             ErrorHandler.getInstance().handleError(
                 error as Error,
@@ -871,6 +1457,63 @@ export class GameManager {
         }
     }
 
+    /**
+     * C cycles camera modes, left/right cycles the followed player in follow mode
+     */
+    private handleSpectatorKey(e: KeyboardEvent): void {
+        if (e.code === 'KeyC') {
+            this.cameraManager.cycleSpectatorMode();
+        } else if (this.cameraManager.getSpectatorMode() === 'follow') {
+            if (e.code === 'ArrowRight' || e.code === 'KeyD') {
+                this.cycleSpectatorTarget(1);
+            } else if (e.code === 'ArrowLeft' || e.code === 'KeyA') {
+                this.cycleSpectatorTarget(-1);
+            }
+        }
+    }
+
+    private cycleSpectatorTarget(direction: 1 | -1): void {
+        const candidates = this.getSpectatorCandidates();
+        if (candidates.length === 0) {
+            this.spectatorTargetId = null;
+            return;
+        }
+
+        const currentIndex = candidates.findIndex(enemy => enemy.getId() === this.spectatorTargetId);
+        const nextIndex = currentIndex === -1
+            ? 0
+            : (currentIndex + direction + candidates.length) % candidates.length;
+        this.spectatorTargetId = candidates[nextIndex].getId();
+    }
+
+    // Alive players in a stable order so cycling is predictable
+    private getSpectatorCandidates(): EnemyPlayer[] {
+        return Array.from(this.entities.enemies.values())
+            .filter(enemy => enemy.isPlayerAlive())
+            .sort((a, b) => a.getId().localeCompare(b.getId()));
+    }
+
+    private updateSpectatorCamera(): void {
+        let target = this.spectatorTargetId ? this.entities.enemies.get(this.spectatorTargetId) : undefined;
+        if (!target || !target.isPlayerAlive()) {
+            // Followed player died or left, move on to the next one
+            this.cycleSpectatorTarget(1);
+            target = this.spectatorTargetId ? this.entities.enemies.get(this.spectatorTargetId) : undefined;
+        }
+
+        const { keys } = this.controller.getState();
+        const panInput = {
+            x: (keys.right ? 1 : 0) - (keys.left ? 1 : 0),
+            y: (keys.down ? 1 : 0) - (keys.up ? 1 : 0),
+        };
+
+        this.cameraManager.updateSpectatorCamera(
+            this.MIN_S_BETWEEN_TICKS,
+            panInput,
+            target ? { x: target.x, y: target.y } : null
+        );
+    }
+
     private handlePlayerInput(): InputPayload | undefined {
         if (!this.player.sprite) return; // No player to control
 
@@ -889,7 +1532,7 @@ export class GameManager {
         const inputVector = Vector2.createFromControllerState(controllerState);
 
 
-        if (this.player.disableInput || this.ui.overlayActive) {
+        if (this.player.disableInput || this.ui.overlayActive || this.player.sprite.isPredictedDead()) {
             inputVector.x = 0; // Prevent input when overlay is active
             inputVector.y = 0; // Prevent input when overlay is active
             inputVector.mouse = undefined; // Prevent mouse input when overlay is active
@@ -899,6 +1542,16 @@ export class GameManager {
             inputVector.mouse = undefined; // Prevent shooting while invulnerable
         }
 
+        if (
+            inputVector.mouse
+            && !this.player.sprite.getIsBystander()
+            && this.gameState.phase === 'active'
+            && this.ammoManager.getAmmo() === 0
+        ) {
+            inputVector.mouse = undefined; // Nothing to throw, the server never hears about it
+            this.audioManager.play('emptyClick');
+        }
+
         this.player.disableInput = this.ui.overlayActive;
         this.controller.resetMouse();
 
@@ -962,6 +1615,11 @@ export class GameManager {
     private render(deltaMs: number): void {
         
         this.scoreManager.updateScores(this.network.latestServerSnapshot.players, this.player.id);
+        this.chatManager.update();
+        this.quickChatMenu.fixDisplayPosition();
+        const serverTime = performance.now() + this.networkManager.getServerTimeOffset();
+        this.matchPhaseDisplay.update(serverTime);
+        this.updateMatchTimer(serverTime);
         this.updateDevDisplays(deltaMs);
     }
 
@@ -970,7 +1628,45 @@ export class GameManager {
         console.log(`Broadcasting player with shooting input: ${hasShootingInput}`)
         if (hasShootingInput)
             console.log(inputPayload);
-        this.networkManager.emit('playerInput', inputPayload);
+
+        this.replayManager.recordInput(inputPayload);
+        const redundant = this.getRedundantInputs();
+        this.networkManager.emit('playerInput', redundant.length > 0 ? { ...inputPayload, redundant } : inputPayload);
+        this.network.unacknowledgedInputTicks.push(inputPayload.tick);
+    }
+
+    /**
+     * The most recent inputs we've sent that the server hasn't confirmed yet, oldest first
+     */
+    private getRedundantInputs(): InputPayload[] {
+        const redundant: InputPayload[] = [];
+        const ticks = this.network.unacknowledgedInputTicks.slice(-this.MAX_REDUNDANT_INPUTS);
+        for (const tick of ticks) {
+            const input = this.network.inputBuffer[tick % this.BUFFER_SIZE];
+            // Skip entries the ring buffer has already overwritten
+            if (input && input.tick === tick) {
+                redundant.push({ tick: input.tick, vector: input.vector });
+            }
+        }
+        return redundant;
+    }
+
+    /**
+     * The server's tick for our player is the last input it processed, so everything up to it is confirmed
+     */
+    private acknowledgeInputs(ackTick: number): void {
+        const ticks = this.network.unacknowledgedInputTicks;
+        let firstUnacknowledged = 0;
+        while (firstUnacknowledged < ticks.length && ticks[firstUnacknowledged] <= ackTick) {
+            firstUnacknowledged++;
+        }
+        if (firstUnacknowledged > 0) {
+            ticks.splice(0, firstUnacknowledged);
+        }
+        // Guard against unbounded growth if acks stop arriving
+        if (ticks.length > this.BUFFER_SIZE) {
+            ticks.splice(0, ticks.length - this.BUFFER_SIZE);
+        }
     }
 
 
@@ -978,6 +1674,18 @@ export class GameManager {
         const devManager = DevModeManager.getInstance();
         devManager.updateFPS();
         devManager.updatePing(deltaMS, this.networkManager.getPing());
+
+        if (devManager.isNetworkGraphVisible()) {
+            const stats = this.networkManager.getNetworkStats();
+            devManager.updateNetworkGraph(deltaMS, {
+                rtt: stats.smoothedPing,
+                jitter: stats.smoothedJitter,
+                snapshotInterval: stats.snapshotInterval,
+                bytesIn: stats.bytesIn,
+                bytesOut: stats.bytesOut,
+                reconciliation: this.reconciliationStats,
+            });
+        }
     }
 
     private showScoreBoard(): void {
@@ -985,6 +1693,7 @@ export class GameManager {
     }
 
     private hideScoreBoard(): void {
+        if (this.player.isSpectator) return;
         this.scoreManager.hideDisplay();
     }
     
@@ -997,21 +1706,34 @@ export class GameManager {
             || (this.player.sprite.getIsInvulnerable() && this.player.sprite.getIsInvulnerable()) // Prevent shooting while invulnerable
         ) return;
         console.log('handling shooting input');
-        // Get projectile from pool instead of creating new one
-        const projectile = this.entities.projectilePool.getElement();
-
-        // Initialize the recycled projectile with new parameters
-        projectile.initialize(
-            this.player.sprite.x,
-            this.player.sprite.y - 50,
-            input.vector.mouse.x,
-            input.vector.mouse.y,
-            { width: this.app.canvas.width, height: this.app.canvas.height },
-            input?.vector?.mouse?.id
-        );
+        this.ammoManager.spendShot(input.tick);
+        const origin = { x: this.player.sprite.x, y: this.player.sprite.y - 50 };
+        const throwId = input.vector.mouse.id;
+
+        // Fat Love Unleash turns this throw into a fan of every tomato he ate. The server
+        // fans out the same throw, so the ids line up for hit reports.
+        const unleashCount = this.powerUpManager.takeUnleash(this.player.id);
+        const targets = unleashCount > 0
+            ? getUnleashTargets(origin, input.vector.mouse, unleashCount)
+            : [input.vector.mouse];
+
+        targets.forEach((target, index) => {
+            // Get projectile from pool instead of creating new one
+            const projectile = this.entities.projectilePool.getElement();
+
+            // Initialize the recycled projectile with new parameters
+            projectile.initialize(
+                origin.x,
+                origin.y,
+                target.x,
+                target.y,
+                { width: this.app.canvas.width, height: this.app.canvas.height },
+                throwId ? getUnleashProjectileId(throwId, index) : undefined
+            );
+            this.player.activeProjectiles.add(projectile);
+        });
 
         AudioManager.getInstance().play('shoot');
-        this.player.activeProjectiles.add(projectile);
     }
 
     private updateOwnProjectiles(): void {
@@ -1026,6 +1748,7 @@ export class GameManager {
                     if (
                         enemyGraphic.isPlayerAlive() === true
                         && enemyGraphic.getIsBystander() === false 
+                        && !isSameTeam(enemyGraphic.getTeam(), this.player.sprite?.getTeam()) // Passes through teammates
                         && testForAABB(projectile, enemyGraphic)
                         && projectile.shouldBeDestroyed === false
                     ) {
@@ -1042,20 +1765,35 @@ export class GameManager {
                             break;
                         }
                         console.log('applying damage to enemy with predicted health', enemyGraphic.getPredictedHealth());
-                        this.networkManager.emit('projectileHit', { enemyId, projectileId: projectile.getId() });
+                        this.networkManager.emit('projectileHit', {
+                            enemyId,
+                            projectileId: projectile.getId(),
+                            renderTime: enemyGraphic.getRenderTime(),
+                            enemyPosition: { x: enemyGraphic.x, y: enemyGraphic.y },
+                            projectilePosition: { x: projectile.x, y: projectile.y },
+                        });
 
-  
+                        // Fat Love eats the tomato, the server still counts it but there's no damage to predict
+                        if (this.powerUpManager.isAbsorbing(enemyId)) {
+                            break;
+                        }
 
                         // Apply predicted damage (the server will confirm or correct this after a timeout)
                         enemyGraphic.damage();
+                        const predictedDeath = enemyGraphic.getPredictedHealth() <= 0;
                         // Record collision prediction
                         // This is required so we can reject stateUpdates that likely haven't computed
                         // the collision yet due to network latency
                          this.gameState.pendingCollisions.set(enemyId, {
                             projectileId: projectile.getId(),
                             timestamp: Date.now(),
-                            predictedHealthAfterHit: enemyGraphic.getPredictedHealth()
+                            predictedHealthAfterHit: enemyGraphic.getPredictedHealth(),
+                            killedBySelf: predictedDeath,
                         });
+
+                        if (predictedDeath) {
+                            this.predictEnemyDeath(enemyGraphic, true);
+                        }
                         
                         // Mark projectile for cleanup
                         break; // Exit collision check loop once hit is found
@@ -1084,10 +1822,12 @@ export class GameManager {
             projectile.update();
 
             if (this.gameState.phase === 'active') {
+                const ownerTeam = this.entities.enemies.get(projectile.getOwnerId())?.getTeam();
                 // Check collision with self first
                 if (
                     this.player.sprite 
                     && this.player.sprite.getIsBystander() === false 
+                    && !isSameTeam(ownerTeam, this.player.sprite.getTeam()) // Passes through teammates
                     && testForAABB(projectile, this.player.sprite)
                     && projectile.shouldBeDestroyed === false
                 ) {
@@ -1095,19 +1835,31 @@ export class GameManager {
                     const projectileIsADud = this.network.enemyProjectileStates.get(projectileId)?.dud;
                     AudioManager.getInstance().play('impact');
 
-                    if (this.player.sprite.getIsInvulnerable() === false && projectileIsADud === false) {
+                    if (
+                        this.player.sprite.getIsInvulnerable() === false
+                        && projectileIsADud === false
+                        && !this.powerUpManager.isAbsorbing(this.player.id) // Fat Love eats it
+                    ) {
+                        this.lastHitOnSelf = { projectileId, ownerId: projectile.getOwnerId() };
                         this.player.sprite.damage();
+                        const predictedDeath = this.player.sprite.getPredictedHealth() <= 0;
                         this.gameState.pendingCollisions.set(this.player.id, {
                             projectileId: projectileId,
                             timestamp: Date.now(),
-                            predictedHealthAfterHit: this.player.sprite.getPredictedHealth()
+                            predictedHealthAfterHit: this.player.sprite.getPredictedHealth(),
                         });
+
+                        if (predictedDeath) {
+                            this.player.sprite.predictDeath();
+                            this.audioManager.playRandomDeathSound();
+                        }
                     }
                 } else {
                     // Check collisions with other enemies
                     for (const [enemyId, enemyGraphic] of this.entities.enemies.entries()) {
                         if (
                             enemyId !== projectile.getOwnerId()
+                            && !isSameTeam(ownerTeam, enemyGraphic.getTeam())
                             && enemyGraphic.isPlayerAlive() === true
                             && testForAABB(projectile, enemyGraphic)
                             && enemyGraphic.getIsBystander() === false
@@ -1116,13 +1868,21 @@ export class GameManager {
                             const projectileIsADud = this.network.enemyProjectileStates.get(projectileId)?.dud;
                             AudioManager.getInstance().play('impact');
 
-                            if (enemyGraphic.getIsInvulnerable() === false || projectileIsADud === false) {
+                            if (
+                                (enemyGraphic.getIsInvulnerable() === false || projectileIsADud === false)
+                                && !this.powerUpManager.isAbsorbing(enemyId)
+                            ) {
                                 enemyGraphic.damage();
+                                const predictedDeath = enemyGraphic.getPredictedHealth() <= 0;
                                 this.gameState.pendingCollisions.set(enemyId, {
                                     projectileId: projectileId,
                                     timestamp: Date.now(), 
-                                    predictedHealthAfterHit: enemyGraphic.getPredictedHealth()
+                                    predictedHealthAfterHit: enemyGraphic.getPredictedHealth(),
                                 });
+
+                                if (predictedDeath) {
+                                    this.predictEnemyDeath(enemyGraphic, false);
+                                }
                             }
                             break;
                         }
@@ -0,0 +1,87 @@
+import type { Container } from 'pixi.js';
+import type { EnemyPlayer } from '../components/game/EnemyPlayer';
+import { Hill } from '../components/game/Hill';
+import type { Player } from '../components/game/Player';
+import type { HillServerState, MatchSettings, PlayerServerState } from '../types/network.types';
+
+/**
+ * King of the hill on the client: draws the zone in the state the server reports and
+ * keeps every player's progress bar in step with the snapshots
+ */
+export class HillManager {
+    private static instance: HillManager | null = null;
+    private gameContainer: Container | null = null;
+    private hill: Hill | null = null;
+    private serverState: HillServerState | null = null;
+
+    private constructor() {
+        // Private constructor for singleton pattern
+    }
+
+    public static getInstance(): HillManager {
+        if (!HillManager.instance) {
+            HillManager.instance = new HillManager();
+        }
+        return HillManager.instance;
+    }
+
+    public initialize(gameContainer: Container): void {
+        this.gameContainer = gameContainer;
+    }
+
+    /**
+     * Build the hill for king of the hill, or take it down for the other modes
+     */
+    public setMatchSettings(settings: MatchSettings): void {
+        if (!this.gameContainer) return;
+        if (!settings.hill) {
+            this.clearHill();
+            return;
+        }
+        if (this.hill) return; // The hill stays put between rounds
+
+        this.hill = new Hill(settings.hill);
+        this.gameContainer.addChild(this.hill);
+    }
+
+    public setServerState(state: HillServerState | undefined): void {
+        this.serverState = state ?? null;
+    }
+
+    /**
+     * Call every tick with the latest merged player states
+     */
+    public update(players: PlayerServerState[], player: Player | undefined, playerId: string, enemies: Map<string, EnemyPlayer>): void {
+        if (!this.hill) return;
+
+        for (const state of players) {
+            const sprite = state.id === playerId ? player : enemies.get(state.id);
+            sprite?.setHillProgress(state.hillProgress);
+        }
+
+        const holderId = this.serverState?.holderId ?? null;
+        if (this.serverState?.contested) {
+            this.hill.setState('contested', 'CONTESTED!');
+        } else if (holderId) {
+            const holder = players.find(state => state.id === holderId);
+            this.hill.setState('held', holderId === playerId ? 'You hold the hill' : `${holder?.name ?? 'Someone'} holds the hill`);
+        } else {
+            this.hill.setState('empty', 'HILL');
+        }
+        this.hill.update();
+    }
+
+    public cleanup(): void {
+        this.clearHill();
+        this.gameContainer = null;
+    }
+
+    private clearHill(): void {
+        if (this.hill) {
+            this.gameContainer?.removeChild(this.hill);
+            this.hill.destroy();
+            this.hill = null;
+        }
+        this.serverState = null;
+    }
+}
@@ -1,38 +1,91 @@
 // src/managers/NetworkManager.ts
 import { io, Socket } from 'socket.io-client';
 import { ModalManager } from '../components/ui/Modal';
+import { QueueScreen } from '../components/ui/QueueScreen';
 import { ErrorHandler, ErrorType } from '../utils/ErrorHandler';
 import lerp from '../utils/utils';
+import { LocalGameServer, type LocalServerOptions } from '../utils/LocalGameServer';
+import { ClockSync, type ClockSyncStats } from '../utils/ClockSync';
+import { NetworkConditionSimulator, type NetworkConditions } from '../utils/NetworkConditionSimulator';
+import type {
+  ClientToServerEvents,
+  JoinQueuePayload,
+  LobbyRequest,
+  MatchData,
+  NetworkEvents,
+  ServerToClientEvents
+} from '../types/network.types';
 
 
 export interface InitializationOptions {
   serverUrl: string;
   region: string;
   playerName: string;
+  // Join as a spectator without a player body
+  spectate?: boolean;
+  // Create or join a private lobby instead of the public queue
+  lobby?: LobbyRequest;
+  // When set, connect to an in-process LocalGameServer instead of serverUrl
+  localServer?: LocalServerOptions;
 }
 
-export interface MatchData {
-  matchId: string;
-  region: string;
-  playerId: string;
-}
+export type { MatchData };
+
+export type GameSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
+
+export type ConnectionState = 'connecting' | 'connected' | 'reconnecting' | 'resuming' | 'failed' | 'closed';
+
+export type ConnectionStateListener = (state: ConnectionState, previous: ConnectionState) => void;
+
+type EventListenerEntry<Ev extends keyof NetworkEvents> = { callback: NetworkEvents[Ev]; once: boolean };
+
+type EventListeners = { [Ev in keyof NetworkEvents]?: Set<EventListenerEntry<Ev>> };
 
 export class NetworkManager {
     private static instance: NetworkManager;
-    private socket: Socket | null = null;
+    private socket: GameSocket | null = null;
     private pingHistory: number[] = [];
     private currentPing: number = 0;
     private smoothedPing: number = 0;
     private smoothedJitter: number = 0;
     private pingIntervalId: ReturnType<typeof setInterval> | null = null;
     private playerId: string | undefined;
-    private serverTimeOffset: number = 0;
+    private clockSync: ClockSync = new ClockSync();
+    private serverTimeOffsetOverride: number | null = null;
 
     private currentMatchData: MatchData | null = null;
+    private simulator: NetworkConditionSimulator = new NetworkConditionSimulator();
+    // Listeners added through on/once. The socket gets one listener per event, so the
+    // simulator decides once per packet and every listener sees the same outcome.
+    private eventListeners: EventListeners = {};
 
     private readonly PING_INTERVAL_MS = 1000;
     private isWaitingForPong: boolean = false;
 
+    // Traffic diagnostics
+    private bytesIn: number = 0;
+    private bytesOut: number = 0;
+    private lastSnapshotAt: number | null = null;
+    private snapshotInterval: number = 0;
+
+    // Reconnection state machine
+    private readonly RECONNECT_BASE_DELAY_MS = 1000;
+    private readonly RECONNECT_MAX_DELAY_MS = 16000;
+    private readonly RECONNECT_MAX_ATTEMPTS = 6;
+    private readonly SESSION_STORAGE_KEY = 'playerMatchSession';
+    private connectionState: ConnectionState = 'connecting';
+    private connectionStateListeners: ConnectionStateListener[] = [];
+    private reconnectAttempt: number = 0;
+    private reconnectTimeoutId: ReturnType<typeof setTimeout> | null = null;
+    private countdownIntervalId: ReturnType<typeof setInterval> | null = null;
+    private session: { playerName: string; region: string; spectate: boolean } | null = null;
+
+    // Matchmaking queue
+    private readonly QUEUE_TIMEOUT_MS = 3 * 60 * 1000;
+    private queueScreen: QueueScreen | null = null;
+    private queueTimeoutId: ReturnType<typeof setTimeout> | null = null;
+    private exitQueue: (() => void) | null = null;
+
     private constructor() {
       // Private constructor for singleton pattern
     }
@@ -51,48 +104,105 @@ export class NetworkManager {
       }
     }
 
-    public async initialize({ serverUrl, region, playerName }: InitializationOptions): Promise<MatchData> {
+    /**
+     * Connect and wait in the matchmaking queue. Resolves with null if the player
+     * cancels or the queue times out, in which case the socket is closed again.
+     */
+    public async initialize({ serverUrl, region, playerName, spectate = false, lobby, localServer }: InitializationOptions): Promise<MatchData | null> {
         console.log(`[NetworkManager] Initializing with serverUrl: ${serverUrl}, region: ${region}, playerName: ${playerName}`);
         if (this.currentMatchData) {
           console.warn('NetworkManager already initialized');
           return this.currentMatchData as MatchData;
         }
-        
-        this.socket = io(serverUrl, {
-          transports: ['websocket'],
-          reconnectionAttempts: 5,
-          reconnectionDelay: 1000,
-          timeout: 20000,
-          upgrade: false,
+
+        this.setConnectionState('connecting');
+        const queueExited = new Promise<null>(resolve => {
+          this.exitQueue = () => resolve(null);
         });
+        this.queueScreen = new QueueScreen(region, this.leaveQueue, this.startLobby);
+        this.queueScreen.show();
+        if (!lobby) {
+          // Private lobbies wait on friends, not matchmaking, so they can sit open as long as the host likes
+          this.queueTimeoutId = setTimeout(this.handleQueueTimeout, this.QUEUE_TIMEOUT_MS);
+        }
+        
+        if (localServer) {
+          console.log('[NetworkManager] Using in-process local game server');
+          // LocalSocket only implements the parts of the socket.io client we use
+          this.socket = LocalGameServer.connect(localServer) as unknown as GameSocket;
+        } else {
+          this.socket = io(serverUrl, {
+            transports: ['websocket'],
+            // Reconnection is driven by our own state machine, see scheduleReconnect
+            reconnection: false,
+            timeout: 20000,
+            upgrade: false,
+          });
+        }
 
-        await this.waitForConnect();
+        const connection = await Promise.race([
+          this.waitForConnect().then(() => 'connected' as const, () => 'failed' as const),
+          queueExited,
+        ]);
+        if (connection !== 'connected') {
+          this.abandonQueue();
+          if (connection === 'failed') {
+            this.handleInitialConnectFailed();
+          }
+          return null;
+        }
         console.log('[NetworkManager] Connected to server');
-        window.addEventListener('beforeunload', () => {
-          this.cleanup();
-        });
+        window.addEventListener('beforeunload', this.handleBeforeUnload);
 
         this.setupPingMonitoring();
+        this.setupTrafficMonitoring();
         console.log('[NetworkManager] Ping monitoring set up');
         this.socket.on('connect_error', (err) => {
           console.error('[NetworkManager] Connection_error event:', err.message);
+          if (this.connectionState === 'reconnecting') {
+            this.scheduleReconnect();
+          }
         });
       
         this.socket.on('disconnect', (reason) => {
           console.warn(`[NetworkManager] Disconnected: ${reason}`);
         });
 
+        this.socket.on('connect', () => {
+          if (this.connectionState === 'reconnecting') {
+            this.resumeSession();
+          }
+        });
+
         this.socket.on('queued', ({ region }) => {
           console.log(`[NetworkManager] Queued in region: ${region}`);
+          if (this.connectionState === 'resuming') {
+            this.showRequeuedScreen(region);
+          }
+          this.queueScreen?.setRegion(region);
+          this.queueScreen?.setQueued();
         });
 
-        this.socket.on('matchFound', ({ matchId, region }) => {
-          console.log(`[NetworkManager] Match found: ${matchId} in ${region}`);
+        this.socket.on('matchFound', (matchData) => {
+          console.log(`[NetworkManager] Match found: ${matchData.matchId} in ${matchData.region}`);
+          if (this.connectionState === 'resuming') {
+            // Our old match is gone, the server placed us in a new one
+            this.stopQueue();
+            this.handleSuccessfulRejoin(matchData);
+          }
         });
 
         this.socket.on('movedToGlobalQueue', () => {
           console.log(`[NetworkManager] Moved to global queue`);
+          this.queueScreen?.setMovedToGlobalQueue();
+        });
+
+        this.socket.on('lobbyUpdate', (lobbyState) => {
+          console.log(`[NetworkManager] Lobby ${lobbyState.code}: ${lobbyState.members.length} members`);
+          this.queueScreen?.setLobby(lobbyState);
         });
+
+        this.socket.on('lobbyError', this.handleLobbyError);
         
         this.socket.on('afkWarning', ({ message }) => {
           console.warn(`[NetworkManager] AFK Warning: ${message}`);
@@ -102,36 +212,191 @@ export class NetworkManager {
           console.warn(`[NetworkManager] AFK Removed: ${message}`);
         });
 
-        this.socket.on('rejoinedMatch', this.handleSuccessfulRejoin);
+        this.socket.on('rejoinedMatch', () => {
+          if (this.connectionState === 'resuming') {
+            this.handleSuccessfulRejoin();
+          }
+        });
         this.socket.on('afkWarning', this.handleAfkWarning);
 
-        this.joinQueue({ name: playerName, region });
-
-        const matchData = await this.waitForMatchFound();
-        this.currentMatchData = matchData;
-        this.playerId = matchData.playerId;
+        // Resume the match from before a page reload if we have one for this region,
+        // unless the player explicitly asked for a private lobby
+        const storedSession = this.loadSession();
+        const resumableSession = storedSession?.region === region && !lobby ? storedSession : null;
+        this.session = { playerName, region, spectate };
+        this.joinQueue({ name: playerName, region, playerMatchId: resumableSession?.playerId, spectate, lobby });
+
+        const matchData = await Promise.race([this.waitForMatchFound(resumableSession), queueExited]);
+        if (!matchData) {
+          this.abandonQueue();
+          return null;
+        }
+        this.stopQueue();
+        this.setMatchData(matchData);
+        this.setConnectionState('connected');
 
-        this.socket.on('disconnect', (reason) => this.handleConnectionLost(reason, playerName, region));
+        this.socket.on('disconnect', this.handleConnectionLost);
 
         return matchData;
     }
 
 
-    private waitForMatchFound(): Promise<MatchData> {
+    private waitForMatchFound(resumableSession: MatchData | null): Promise<MatchData> {
       return new Promise((resolve) => {
         if (!this.socket) {
           console.error('NetworkManager not initialized');
           return;
         }
 
-        this.socket.once('matchFound', (matchData: MatchData) => {
+        const socket = this.socket;
+        const onMatchFound = (matchData: MatchData) => {
           console.log('Match found:', matchData);
+          socket.off('rejoinedMatch', onRejoined);
           resolve(matchData);
-        });
+        };
+        const onRejoined = () => {
+          if (!resumableSession) return;
+          console.log('Rejoined match from previous session:', resumableSession);
+          socket.off('matchFound', onMatchFound);
+          resolve(resumableSession);
+        };
+
+        socket.once('matchFound', onMatchFound);
+        socket.once('rejoinedMatch', onRejoined);
+      });
+    }
+
+    /**
+     * Leave the matchmaking queue, e.g. from the queue screen's cancel button
+     */
+    public leaveQueue = () => {
+      if (!this.exitQueue) return;
+      console.log('[NetworkManager] Leaving matchmaking queue');
+      if (this.socket?.connected) {
+        // Sent directly, the socket is closed right after and would drop anything the simulator holds back
+        this.socket.emit('leaveQueue');
+      }
+      this.exitQueue();
+      this.exitQueue = null;
+    }
+
+    /**
+     * Host only, start the private match with whoever is in the lobby
+     */
+    public startLobby = () => {
+      console.log('[NetworkManager] Starting private lobby');
+      this.emit('startLobby');
+    }
+
+    private handleLobbyError = ({ message }: { message: string }) => {
+      console.warn(`[NetworkManager] Lobby error: ${message}`);
+      this.leaveQueue();
+      ModalManager.getInstance().showModal({
+        title: "Lobby Unavailable",
+        message,
+        button: {
+          text: "OK",
+          closeOnClick: true
+        }
+      });
+    }
+
+    /**
+     * The first connect attempt failed, nothing retries it. Back to the login screen to try again.
+     */
+    private handleInitialConnectFailed(): void {
+      this.setConnectionState('failed');
+      ModalManager.getInstance().showModal({
+        title: "Unable to Connect",
+        message: "We couldn't reach the game server. Check your connection and try again.",
+        button: {
+          text: "OK",
+          closeOnClick: true
+        },
+        isWarning: true
+      });
+    }
+
+    private handleQueueTimeout = () => {
+      console.warn('[NetworkManager] Timed out waiting for a match');
+      this.leaveQueue();
+      ModalManager.getInstance().showModal({
+        title: "No Match Found",
+        message: "We couldn't find a match in time. Please try again in a bit.",
+        button: {
+          text: "OK",
+          closeOnClick: true
+        }
       });
     }
 
-    private handleConnectionLost = (reason: string, playerName: string, playerRegion: string) => {
+    private stopQueue(): void {
+      if (this.queueTimeoutId) {
+        clearTimeout(this.queueTimeoutId);
+        this.queueTimeoutId = null;
+      }
+      this.queueScreen?.hide();
+      this.queueScreen = null;
+      this.exitQueue = null;
+    }
+
+    /**
+     * Tear down the connection we opened for queueing so initialize can be called again
+     */
+    private abandonQueue(): void {
+      this.stopQueue();
+      this.cleanup();
+      this.clockSync.reset();
+      this.socket = null;
+      this.session = null;
+      this.isWaitingForPong = false;
+      this.setConnectionState('closed');
+    }
+
+    private handleBeforeUnload = () => {
+      this.cleanup();
+    }
+
+    private setMatchData(matchData: MatchData): void {
+      this.currentMatchData = matchData;
+      this.playerId = matchData.playerId;
+      this.saveSession(matchData);
+    }
+
+    public getConnectionState(): ConnectionState {
+      return this.connectionState;
+    }
+
+    /**
+     * Subscribe to connection state changes. Returns a function that removes the listener.
+     */
+    public onConnectionStateChange(callback: ConnectionStateListener): () => void {
+      this.connectionStateListeners.push(callback);
+      return () => {
+        this.connectionStateListeners = this.connectionStateListeners.filter(cb => cb !== callback);
+      };
+    }
+
+    private setConnectionState(state: ConnectionState): void {
+      const previous = this.connectionState;
+      if (previous === state) return;
+      this.connectionState = state;
+      console.log(`[NetworkManager] Connection state: ${previous} -> ${state}`);
+
+      for (const listener of this.connectionStateListeners) {
+        try {
+          listener(state, previous);
+        } catch (error) {
+          ErrorHandler.getInstance().handleError(
+            error as Error,
+            ErrorType.SOCKET,
+            { phase: 'connectionStateListener', state, previous }
+          );
+        }
+      }
+    }
+
+    private handleConnectionLost = (reason: string) => {
         console.log('Inside handleConnectionLost from NetworkManager');  
         if (!this.socket) {
             console.error('NetworkManager not initialized');
@@ -139,33 +404,167 @@ export class NetworkManager {
         }
 
         if (reason === "io server disconnect") {
+            this.clearReconnectTimers();
+            this.clearSession();
+            this.setConnectionState('closed');
             this.handleAfkRemoved({ message: 'You were removed for being AFK.' });
+        } else if (reason === "io client disconnect") {
+            // We closed the socket ourselves
+            this.clearReconnectTimers();
+            this.setConnectionState('closed');
         } else {
             console.log('Unexpected disconnection, attempting to reconnect...');
-            this.handleDisconnectedWarning();
-            this.socket.once('connect', () => this.handleReconnection(playerName, playerRegion));
+            this.reconnectAttempt = 0;
+            this.setConnectionState('reconnecting');
+            this.scheduleReconnect();
         }
     }
 
-    private handleReconnection = async (playerName: string, playerRegion: string) => {
-      console.log('Inside handleReconnection from NetworkManager');
+    private getBackoffDelay(attempt: number): number {
+        return Math.min(this.RECONNECT_BASE_DELAY_MS * Math.pow(2, attempt), this.RECONNECT_MAX_DELAY_MS);
+    }
+
+    /**
+     * Wait out the backoff delay for the next attempt, showing a countdown to the player
+     */
+    private scheduleReconnect(): void {
+        this.clearReconnectTimers();
+
+        if (this.reconnectAttempt >= this.RECONNECT_MAX_ATTEMPTS) {
+            this.handleReconnectFailed();
+            return;
+        }
+
+        const delay = this.getBackoffDelay(this.reconnectAttempt);
+        this.reconnectAttempt++;
+        const attemptAt = Date.now() + delay;
+        const countdownMessage = () => {
+            const secondsLeft = Math.max(0, Math.ceil((attemptAt - Date.now()) / 1000));
+            return `Connection lost. Reconnecting in ${secondsLeft}s (attempt ${this.reconnectAttempt} of ${this.RECONNECT_MAX_ATTEMPTS})...`;
+        };
+
+        ModalManager.getInstance().showModal({
+            title: "Connection Lost",
+            message: countdownMessage(),
+            button: {
+                text: "Retry Now",
+                action: () => this.attemptReconnect(),
+                closeOnClick: false
+            },
+            isWarning: true
+        });
+
+        this.countdownIntervalId = setInterval(() => {
+            ModalManager.getInstance().updateMessage(countdownMessage());
+        }, 1000);
+        this.reconnectTimeoutId = setTimeout(() => this.attemptReconnect(), delay);
+    }
+
+    private attemptReconnect = () => {
+        this.clearReconnectTimers();
         if (!this.socket) {
             console.error('NetworkManager not initialized');
             return;
         }
 
-        console.log('Reconnected to server, rejoining queue with player info...', { name: playerName, region: playerRegion, playerMatchId: this.playerId });
-        this.joinQueue({ name: playerName, region: playerRegion, playerMatchId: this.playerId });
+        if (this.socket.connected) {
+            this.resumeSession();
+            return;
+        }
+
+        console.log(`[NetworkManager] Reconnect attempt ${this.reconnectAttempt}`);
+        ModalManager.getInstance().updateMessage('Reconnecting...');
+        this.socket.connect();
     }
 
-    private handleDisconnectedWarning = () => {
+    private resumeSession(): void {
+        if (!this.session) return;
+        this.clearReconnectTimers();
+        this.isWaitingForPong = false;
+        this.setConnectionState('resuming');
+        ModalManager.getInstance().updateMessage('Reconnected. Rejoining match...');
+
+        console.log('Reconnected to server, rejoining queue with player info...', { ...this.session, playerMatchId: this.playerId });
+        this.joinQueue({ name: this.session.playerName, region: this.session.region, playerMatchId: this.playerId, spectate: this.session.spectate });
+    }
+
+    /**
+     * Our old match is gone and the server put us back in the queue. The queue screen stays up
+     * until matchFound completes the rejoin, cancelling it counts as a failed reconnect.
+     */
+    private showRequeuedScreen(region: string): void {
+        if (this.queueScreen) return;
+        ModalManager.getInstance().closeModal();
+        this.queueScreen = new QueueScreen(region, this.leaveQueue, this.startLobby);
+        this.queueScreen.show();
+        this.exitQueue = () => {
+            this.stopQueue();
+            this.handleReconnectFailed();
+        };
+    }
+
+    private handleReconnectFailed(): void {
+        this.setConnectionState('failed');
         ModalManager.getInstance().showModal({
-            title: "Connection Lost",
-            message: "Connection lost. Attempting to reconnect...",
+            title: "Unable to Reconnect",
+            message: "We couldn't reach the game server. Check your connection and try again.",
+            button: {
+                text: "Retry",
+                action: () => {
+                    this.reconnectAttempt = 0;
+                    this.setConnectionState('reconnecting');
+                    this.attemptReconnect();
+                },
+                closeOnClick: false
+            },
             isWarning: true
         });
     }
 
+    private clearReconnectTimers(): void {
+        if (this.reconnectTimeoutId) {
+            clearTimeout(this.reconnectTimeoutId);
+            this.reconnectTimeoutId = null;
+        }
+        if (this.countdownIntervalId) {
+            clearInterval(this.countdownIntervalId);
+            this.countdownIntervalId = null;
+        }
+    }
+
+    private loadSession(): MatchData | null {
+        try {
+            const saved = sessionStorage.getItem(this.SESSION_STORAGE_KEY);
+            if (!saved) return null;
+            const parsed = JSON.parse(saved);
+            if (typeof parsed?.playerId !== 'string' || typeof parsed?.matchId !== 'string' || typeof parsed?.region !== 'string') {
+                return null;
+            }
+            return parsed as MatchData;
+        } catch (error) {
+            console.warn('[NetworkManager] Unable to read stored match session', error);
+            return null;
+        }
+    }
+
+    private saveSession(matchData: MatchData): void {
+        try {
+            // The phase is only valid when the match was found, a resumed session learns it from the server
+            const { phase: _phase, ...session } = matchData;
+            sessionStorage.setItem(this.SESSION_STORAGE_KEY, JSON.stringify(session));
+        } catch (error) {
+            console.warn('[NetworkManager] Unable to store match session', error);
+        }
+    }
+
+    private clearSession(): void {
+        try {
+            sessionStorage.removeItem(this.SESSION_STORAGE_KEY);
+        } catch (error) {
+            console.warn('[NetworkManager] Unable to clear match session', error);
+        }
+    }
+
     private handleAfkRemoved = ({ message }: { message: string}) => {
         try {
             ModalManager.getInstance().showModal({
@@ -227,15 +626,16 @@ export class NetworkManager {
             const start = performance.now();
             // Use volatile to prevent buffering if disconnected
             if (this.socket) {
-                this.socket.emit('m-ping', { pingStart: start });
+                this.emit('m-ping', { pingStart: start });
             }
             this.isWaitingForPong = true;
         }, this.PING_INTERVAL_MS);
 
-        this.socket.on('m-pong', ({ pingStart, serverTime }) => {
+        this.on('m-pong', ({ pingStart, serverTime }) => {
             this.isWaitingForPong = false;
-            const latency = performance.now() - pingStart;
-            this.updatePing(latency, serverTime);
+            const receivedAt = performance.now();
+            this.updatePing(receivedAt - pingStart);
+            this.clockSync.addSample(pingStart, serverTime, receivedAt);
 
         });
 
@@ -248,7 +648,43 @@ export class NetworkManager {
         });
     }
 
+    /**
+     * Count bytes in both directions and time snapshot arrivals for the diagnostics overlay
+     */
+    private setupTrafficMonitoring(): void {
+        if (!this.socket) {
+            console.error('NetworkManager not initialized');
+            return;
+        }
+
+        // Raw arrivals, before the condition simulator delays or drops anything
+        this.socket.onAny((event: string, ...args: unknown[]) => {
+            this.bytesIn += this.estimatePacketSize(event, args);
+        });
+
+        this.on('stateUpdate', () => {
+            const now = performance.now();
+            if (this.lastSnapshotAt !== null) {
+                const interval = now - this.lastSnapshotAt;
+                this.snapshotInterval = this.snapshotInterval === 0 ? interval : lerp(this.snapshotInterval, interval, 0.1);
+            }
+            this.lastSnapshotAt = now;
+        });
+    }
+
+    // JSON length is close enough to what socket.io puts on the wire for a graph
+    private estimatePacketSize(event: string, args: unknown[]): number {
+        try {
+            return JSON.stringify([event, ...args]).length;
+        } catch {
+            return 0;
+        }
+    }
+
     public cleanup(): void {
+        this.simulator.clear();
+        this.stopQueue();
+        this.clearReconnectTimers();
         if (this.pingIntervalId) {
             clearInterval(this.pingIntervalId);
             this.pingIntervalId = null;
@@ -257,9 +693,10 @@ export class NetworkManager {
             this.socket.removeAllListeners();
             this.socket.disconnect();
         }
+        this.eventListeners = {};
     }
 
-    private updatePing(latency: number, serverTime: number): void {
+    private updatePing(latency: number): void {
         // Add to history (keep last 5 values)
         this.pingHistory.push(latency);
         if (this.pingHistory.length > 5) {
@@ -284,12 +721,6 @@ export class NetworkManager {
         
 
         //console.log(`[NetworkManager] Ping: ${this.currentPing} ms, Smoothed Ping: ${Math.round(this.smoothedPing)} ms, Smoothed Jitter: ${Math.round(this.smoothedJitter)} ms`);
-
-
-        const newServerTimeOffset = serverTime - (performance.now() + this.getOneWayDelay());
-        //console.log('newServerTimeOffset:', newServerTimeOffset);
-        //console.log('calculated by :', serverTime, '-', (performance.now() + this.getOneWayDelay()));
-        this.serverTimeOffset = newServerTimeOffset;
     }
 
     public getOneWayDelay(): number {
@@ -306,8 +737,22 @@ export class NetworkManager {
         return Math.round(this.smoothedPing);
     }
 
+    /**
+     * Offset to add to performance.now() to get the server time, see ClockSync
+     */
     public getServerTimeOffset(): number {
-        return this.serverTimeOffset;
+        return this.serverTimeOffsetOverride ?? this.clockSync.getOffset();
+    }
+
+    /**
+     * Replay mode drives the server clock itself. Pass null to go back to ClockSync.
+     */
+    public setServerTimeOffsetOverride(offset: number | null): void {
+        this.serverTimeOffsetOverride = offset;
+    }
+
+    public getClockSyncStats(): ClockSyncStats {
+        return this.clockSync.getStats();
     }
 
     public getSmoothedJitter(): number {
@@ -320,39 +765,45 @@ export class NetworkManager {
         smoothedPing: number;
         smoothedJitter: number;
         samples: number;
+        snapshotInterval: number;
+        bytesIn: number;
+        bytesOut: number;
     } {
         return {
             currentPing: this.currentPing,
             smoothedPing: Math.round(this.smoothedPing),
             smoothedJitter: Math.round(this.smoothedJitter),
-            samples: this.pingHistory.length
+            samples: this.pingHistory.length,
+            snapshotInterval: this.snapshotInterval,
+            bytesIn: this.bytesIn,
+            bytesOut: this.bytesOut
         };
     }
 
-    joinQueue(data: { name: string; region: string, playerMatchId?: string }) {
+    joinQueue(data: JoinQueuePayload) {
       console.log(`[NetworkManager] Joining queue in region: ${data.region} as ${data.name}`);
       if (!this.socket) {
         console.error('NetworkManager not initialized');
         return;
       }
-      this.socket.emit('joinQueue', data);
+      this.emit('joinQueue', data);
       console.log('[NetworkManager] joinQueue event emitted');
     }
 
-    on(event: string, callback: (...args: any[]) => void) {
-      if (!this.socket) {
-        console.error('NetworkManager not initialized');
-        return;
-      }
-      this.socket.on(event, callback);
+    on<Ev extends keyof NetworkEvents>(event: Ev, callback: NetworkEvents[Ev]) {
+      this.addEventListener(event, { callback, once: false });
     }
 
-    emit(event: string, payload?: unknown) {
+    emit<Ev extends keyof ClientToServerEvents>(event: Ev, ...args: Parameters<ClientToServerEvents[Ev]>) {
       if (!this.socket) {
         console.error('NetworkManager not initialized');
         return;
       }
-      this.socket.emit(event, payload);
+      const socket = this.socket;
+      this.simulator.schedule('outgoing', event, () => {
+        this.bytesOut += this.estimatePacketSize(event, args);
+        socket.emit(event, ...args);
+      });
     }
 
     disconnect() {
@@ -363,12 +814,43 @@ export class NetworkManager {
       this.socket.disconnect();
     }
 
-    once(event: string, callback: (...args: any[]) => void) {
+    once<Ev extends keyof NetworkEvents>(event: Ev, callback: NetworkEvents[Ev]) {
+      this.addEventListener(event, { callback, once: true });
+    }
+
+    private addEventListener<Ev extends keyof NetworkEvents>(event: Ev, entry: EventListenerEntry<Ev>): void {
       if (!this.socket) {
         console.error('NetworkManager not initialized');
         return;
       }
-      this.socket.once(event, callback);
+      const existing = this.eventListeners[event];
+      if (existing) {
+        existing.add(entry);
+        return;
+      }
+
+      const entries = new Set<EventListenerEntry<Ev>>([entry]);
+      this.eventListeners[event] = entries as EventListeners[Ev];
+      // socket.io can't narrow its reserved/user listener union for a generic event name
+      (this.socket as Socket).on(event as string, (...args: Parameters<NetworkEvents[Ev]>) => {
+        this.simulator.schedule('incoming', event, () => this.dispatch(entries, args));
+      });
+    }
+
+    private dispatch<Ev extends keyof NetworkEvents>(entries: Set<EventListenerEntry<Ev>>, args: Parameters<NetworkEvents[Ev]>): void {
+      // Copy first, listeners may add or remove listeners while we deliver
+      for (const entry of [...entries]) {
+        if (entry.once) entries.delete(entry);
+        (entry.callback as (...args: Parameters<NetworkEvents[Ev]>) => void)(...args);
+      }
+    }
+
+    /**
+     * Developer mode only: simulate latency, jitter, packet loss and reordering.
+     * Pass null to restore normal delivery.
+     */
+    public setNetworkConditions(conditions: NetworkConditions | null): void {
+      this.simulator.setConditions(conditions);
     }
 
     public getPlayerId() {
@@ -384,28 +866,45 @@ export class NetworkManager {
       return this.socket?.connected || false;
     }
 
-    public getSocket(): Socket | null {
+    public getSocket(): GameSocket | null {
       return this.socket;
     }
 
 
+    /**
+     * Resolves once connected, rejects if the connection attempt fails
+     */
     public async waitForConnect(): Promise<void> {
       if (!this.socket) {
         throw new Error('NetworkManager not initialized');
       }
       if (this.socket.connected && this.playerId) return;
-      return new Promise(resolve => {
-        this.socket!.once('connect', () => {
+      const socket = this.socket;
+      return new Promise((resolve, reject) => {
+        const onConnect = () => {
+          socket.off('connect_error', onConnectError);
           resolve();
-        });
+        };
+        const onConnectError = (error: Error) => {
+          console.error('[NetworkManager] Initial connection failed:', error.message);
+          socket.off('connect', onConnect);
+          reject(error);
+        };
+        socket.once('connect', onConnect);
+        socket.once('connect_error', onConnectError);
       });
     }
 
 
 
-    private async handleSuccessfulRejoin() {
+    private handleSuccessfulRejoin(matchData?: MatchData) {
       try {
           console.log('Successfully rejoined the match after reconnection, closing modal');
+          if (matchData) {
+            this.setMatchData(matchData);
+          }
+          this.reconnectAttempt = 0;
+          this.setConnectionState('connected');
           ModalManager.getInstance().closeModal();
       } catch (error) {
           ErrorHandler.getInstance().handleError(
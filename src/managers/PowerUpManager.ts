@@ -0,0 +1,132 @@
+import type { Container } from 'pixi.js';
+import type { EnemyPlayer } from '../components/game/EnemyPlayer';
+import type { Player } from '../components/game/Player';
+import { PowerUpPickup } from '../components/game/PowerUpPickup';
+import { PowerUpDisplay } from '../components/ui/PowerUpDisplay';
+import type { ActivePowerUpState, PlayerServerState, PowerUpSpawnState } from '../types/network.types';
+
+const POWER_UP_CONSTANTS = {
+    // How long a predicted unleash hides the power-up before we trust the server again
+    UNLEASH_TIMEOUT_MS: 1000,
+} as const;
+
+/**
+ * Power-ups on the client: draws the pickups the server reports, shows who holds what
+ * and answers the questions the hit prediction has about them
+ */
+export class PowerUpManager {
+    private static instance: PowerUpManager | null = null;
+    private gameContainer: Container | null = null;
+    private display: PowerUpDisplay | null = null;
+    private pickups: Map<string, PowerUpPickup> = new Map();
+    private activePowerUps: Map<string, ActivePowerUpState> = new Map();
+    private serverTime: number = 0;
+    // Our own unleash, fired before the server has taken the power-up away
+    private unleashedAt: number | null = null;
+
+    private constructor() {
+        // Private constructor for singleton pattern
+    }
+
+    public static getInstance(): PowerUpManager {
+        if (!PowerUpManager.instance) {
+            PowerUpManager.instance = new PowerUpManager();
+        }
+        return PowerUpManager.instance;
+    }
+
+    /**
+     * Pickups go into the game world, the returned display belongs on the HUD
+     */
+    public initialize(gameContainer: Container): PowerUpDisplay {
+        this.gameContainer = gameContainer;
+        this.display = new PowerUpDisplay();
+        return this.display;
+    }
+
+    /**
+     * Add and remove pickups to match the latest snapshot
+     */
+    public setServerState(powerUps: PowerUpSpawnState[] | undefined): void {
+        if (!this.gameContainer) return;
+        const available = powerUps ?? [];
+
+        for (const [id, pickup] of this.pickups) {
+            if (available.some(powerUp => powerUp.id === id)) continue;
+            this.gameContainer.removeChild(pickup);
+            pickup.destroy();
+            this.pickups.delete(id);
+        }
+        for (const powerUp of available) {
+            let pickup = this.pickups.get(powerUp.id);
+            if (!pickup) {
+                pickup = new PowerUpPickup(powerUp.type);
+                this.pickups.set(powerUp.id, pickup);
+                this.gameContainer.addChild(pickup);
+            }
+            pickup.setPosition(powerUp.x, powerUp.y);
+        }
+    }
+
+    /**
+     * Call every tick with the latest merged player states
+     */
+    public update(players: PlayerServerState[], player: Player | undefined, playerId: string, enemies: Map<string, EnemyPlayer>, serverTime: number): void {
+        this.serverTime = serverTime;
+        this.activePowerUps.clear();
+        for (const state of players) {
+            if (state.powerUp && state.powerUp.endsAt > serverTime) {
+                this.activePowerUps.set(state.id, state.powerUp);
+            }
+        }
+
+        if (this.unleashedAt !== null) {
+            const stillHeld = this.activePowerUps.get(playerId)?.type === 'fatLoveOffense';
+            if (!stillHeld || performance.now() - this.unleashedAt > POWER_UP_CONSTANTS.UNLEASH_TIMEOUT_MS) {
+                this.unleashedAt = null;
+            } else {
+                this.activePowerUps.delete(playerId);
+            }
+        }
+
+        for (const state of players) {
+            const sprite = state.id === playerId ? player : enemies.get(state.id);
+            sprite?.setPowerUp(this.activePowerUps.get(state.id)?.type);
+        }
+        for (const pickup of this.pickups.values()) {
+            pickup.update();
+        }
+        this.display?.update(this.activePowerUps.get(playerId) ?? null, serverTime);
+    }
+
+    /**
+     * Fat Love Feast is active, projectiles hitting this player get eaten instead of doing damage
+     */
+    public isAbsorbing(playerId: string): boolean {
+        return this.activePowerUps.get(playerId)?.type === 'fatLoveDefense';
+    }
+
+    /**
+     * Spend our Fat Love Unleash on this throw. Returns how many tomatoes to fire, 0 without one.
+     */
+    public takeUnleash(playerId: string): number {
+        const powerUp = this.activePowerUps.get(playerId);
+        if (powerUp?.type !== 'fatLoveOffense' || powerUp.endsAt <= this.serverTime) return 0;
+        this.unleashedAt = performance.now();
+        this.activePowerUps.delete(playerId);
+        return powerUp.charges;
+    }
+
+    public cleanup(): void {
+        for (const pickup of this.pickups.values()) {
+            this.gameContainer?.removeChild(pickup);
+            pickup.destroy();
+        }
+        this.pickups.clear();
+        this.activePowerUps.clear();
+        this.unleashedAt = null;
+        this.display?.destroy();
+        this.display = null;
+        this.gameContainer = null;
+    }
+}
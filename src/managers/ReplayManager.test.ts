@@ -0,0 +1,29 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { ServerStateUpdate } from '../types/network.types';
+import { ReplayManager } from './ReplayManager';
+
+// Only used once a recording is full, keeps the UI out of the test
+vi.mock('./ChatManager', () => ({ ChatManager: { getInstance: () => ({ addSystemMessage: vi.fn() }) } }));
+
+describe('ReplayManager', () => {
+    it('keeps a recorded snapshot as the server sent it', () => {
+        const replayManager = ReplayManager.getInstance();
+        replayManager.startRecording({ matchId: 'match', region: 'NA', playerId: 'p1' }, 'Tester');
+
+        const state: ServerStateUpdate = {
+            players: [],
+            projectiles: [{ id: 'tomato', x: 10, y: 20, vx: 1, vy: 0, ownerId: 'p2', dud: false }],
+            sTick: 1,
+            sTime: 1000,
+        };
+        replayManager.recordStateUpdate(state);
+
+        // What GameManager does once a later partial update marks the projectile as a dud
+        state.projectiles[0].dud = true;
+        state.projectiles[0].x = 50;
+
+        const [event] = replayManager['recording']!.events;
+        expect(event.type).toBe('stateUpdate');
+        expect(event.type === 'stateUpdate' && event.data.projectiles[0]).toMatchObject({ x: 10, dud: false });
+    });
+});
@@ -0,0 +1,295 @@
+import { ErrorHandler, ErrorType } from '../utils/ErrorHandler';
+import { ChatManager } from './ChatManager';
+import type { BasketEvent, InputPayload, MatchData, MatchPhasePayload, PlayerScore, ServerStateUpdate } from '../types/network.types';
+
+// Records everything the client receives during a match (plus our own inputs) so the
+// match can be downloaded and later fed back through GameManager in replay mode.
+
+export type ReplayEvent =
+    | { t: number; type: 'stateUpdate'; data: ServerStateUpdate }
+    | { t: number; type: 'gameOver'; data: PlayerScore[] }
+    | { t: number; type: 'matchReset' }
+    | { t: number; type: 'matchPhase'; data: MatchPhasePayload }
+    | { t: number; type: 'basketEvent'; data: BasketEvent }
+    | { t: number; type: 'input'; data: InputPayload };
+
+export interface ReplayFile {
+    version: number;
+    recordedAt: string; // ISO date
+    matchId: string;
+    region: string;
+    playerId: string;
+    playerName: string;
+    duration: number; // ms
+    events: ReplayEvent[]; // t is ms since the recording started, ascending
+}
+
+export interface ReplayPlaybackState {
+    time: number; // ms since the recording started
+    duration: number;
+    speed: number;
+    paused: boolean;
+}
+
+interface ReplayPlayback extends ReplayPlaybackState {
+    replay: ReplayFile;
+    nextEventIndex: number;
+    // Recording time -> server time, so enemy interpolation runs off the replay clock
+    serverTimeOffset: number;
+}
+
+const REPLAY_CONSTANTS = {
+    VERSION: 1,
+    // ~55 minutes of snapshots at 30Hz, recording stops past this
+    MAX_EVENTS: 100000,
+    // Positions don't need more precision than this, keeps the file small
+    NUMBER_PRECISION: 100,
+    FILE_EXTENSION: '.replay.json.gz',
+} as const;
+
+export class ReplayManager {
+    private static instance: ReplayManager | null = null;
+    private recording: ReplayFile | null = null;
+    private recordingStartedAt: number = 0;
+    private recordingFull: boolean = false;
+    private playback: ReplayPlayback | null = null;
+
+    private constructor() {
+        // Private constructor for singleton pattern
+    }
+
+    public static getInstance(): ReplayManager {
+        if (!ReplayManager.instance) {
+            ReplayManager.instance = new ReplayManager();
+        }
+        return ReplayManager.instance;
+    }
+
+    /**
+     * Start a fresh recording for the match we just joined
+     */
+    public startRecording(matchData: MatchData, playerName: string): void {
+        this.recordingStartedAt = performance.now();
+        this.recordingFull = false;
+        this.recording = {
+            version: REPLAY_CONSTANTS.VERSION,
+            recordedAt: new Date().toISOString(),
+            matchId: matchData.matchId,
+            region: matchData.region,
+            playerId: matchData.playerId,
+            playerName,
+            duration: 0,
+            events: [],
+        };
+    }
+
+    public recordStateUpdate(state: ServerStateUpdate): void {
+        // A copy, the client goes on to mutate the snapshot it got (e.g. marking duds)
+        this.push({ t: this.now(), type: 'stateUpdate', data: structuredClone(state) });
+    }
+
+    public recordGameOver(scores: PlayerScore[]): void {
+        this.push({ t: this.now(), type: 'gameOver', data: scores });
+    }
+
+    public recordMatchReset(): void {
+        this.push({ t: this.now(), type: 'matchReset' });
+    }
+
+    public recordMatchPhase(phase: MatchPhasePayload): void {
+        this.push({ t: this.now(), type: 'matchPhase', data: phase });
+    }
+
+    public recordBasketEvent(event: BasketEvent): void {
+        this.push({ t: this.now(), type: 'basketEvent', data: event });
+    }
+
+    public recordInput(input: InputPayload): void {
+        // Resent inputs are already in the recording under their own tick
+        const { redundant: _redundant, ...rest } = input;
+        this.push({ t: this.now(), type: 'input', data: rest });
+    }
+
+    public hasRecording(): boolean {
+        return this.recording !== null && this.recording.events.length > 0;
+    }
+
+    /**
+     * Save the current recording as a gzipped JSON file
+     */
+    public async downloadReplay(): Promise<void> {
+        if (!this.recording || !this.hasRecording()) {
+            console.warn('[ReplayManager] Nothing recorded yet');
+            return;
+        }
+
+        try {
+            const blob = await this.toBlob(this.recording);
+            const url = URL.createObjectURL(blob);
+            const link = document.createElement('a');
+            const date = this.recording.recordedAt.replace(/[:.]/g, '-');
+            link.href = url;
+            link.download = `match-${this.recording.matchId}-${date}${blob.type === 'application/gzip' ? REPLAY_CONSTANTS.FILE_EXTENSION : '.replay.json'}`;
+            document.body.appendChild(link);
+            link.click();
+            document.body.removeChild(link);
+            setTimeout(() => URL.revokeObjectURL(url), 1000);
+        } catch (error) {
+            ErrorHandler.getInstance().handleError(
+                error as Error,
+                ErrorType.GAME_STATE,
+                { phase: 'downloadReplay', events: this.recording.events.length }
+            );
+        }
+    }
+
+    /**
+     * Read a replay file produced by downloadReplay (gzipped or plain JSON)
+     */
+    public async loadReplayFile(file: File): Promise<ReplayFile> {
+        const bytes = new Uint8Array(await file.arrayBuffer());
+        const isGzip = bytes[0] === 0x1f && bytes[1] === 0x8b;
+
+        let text: string;
+        if (isGzip) {
+            const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('gzip'));
+            text = await new Response(stream).text();
+        } else {
+            text = new TextDecoder().decode(bytes);
+        }
+
+        const replay = JSON.parse(text) as ReplayFile;
+        if (replay.version !== REPLAY_CONSTANTS.VERSION || !Array.isArray(replay.events)) {
+            throw new Error(`Unsupported replay file (version ${replay.version})`);
+        }
+        return replay;
+    }
+
+    /**
+     * Start playing a loaded replay from the beginning, paused
+     */
+    public startPlayback(replay: ReplayFile): void {
+        // Snapshots reach us some latency after sTime, the median keeps late packets from skewing it
+        const offsets = replay.events
+            .filter((event): event is Extract<ReplayEvent, { type: 'stateUpdate' }> => event.type === 'stateUpdate')
+            .map(event => event.data.sTime - event.t)
+            .sort((a, b) => a - b);
+
+        this.playback = {
+            replay,
+            time: 0,
+            duration: replay.duration,
+            speed: 1,
+            paused: true,
+            nextEventIndex: 0,
+            serverTimeOffset: offsets.length > 0 ? offsets[Math.floor(offsets.length / 2)] : 0,
+        };
+    }
+
+    public isPlayingBack(): boolean {
+        return this.playback !== null;
+    }
+
+    public getPlaybackState(): ReplayPlaybackState | null {
+        if (!this.playback) return null;
+        const { time, duration, speed, paused } = this.playback;
+        return { time, duration, speed, paused };
+    }
+
+    public setPaused(paused: boolean): void {
+        if (!this.playback) return;
+        this.playback.paused = paused;
+    }
+
+    public setSpeed(speed: number): void {
+        if (!this.playback) return;
+        this.playback.speed = speed;
+    }
+
+    /**
+     * Server time at the current playback position
+     */
+    public getPlaybackServerTime(): number {
+        if (!this.playback) return 0;
+        return this.playback.time + this.playback.serverTimeOffset;
+    }
+
+    /**
+     * Move the playback clock forward by deltaMs of real time and return the events that are now due
+     */
+    public advancePlayback(deltaMs: number): ReplayEvent[] {
+        const playback = this.playback;
+        if (!playback || playback.paused) return [];
+
+        playback.time = Math.min(playback.time + deltaMs * playback.speed, playback.duration);
+        if (playback.time >= playback.duration) {
+            playback.paused = true;
+        }
+        return this.takeDueEvents();
+    }
+
+    /**
+     * Jump to a position. Snapshots are deltas, so going backwards means the caller has to
+     * reset the world and apply every event from the start again (rewound is true).
+     */
+    public seekPlayback(time: number): { rewound: boolean; events: ReplayEvent[] } {
+        const playback = this.playback;
+        if (!playback) return { rewound: false, events: [] };
+
+        const target = Math.max(0, Math.min(time, playback.duration));
+        const rewound = target < playback.time;
+        if (rewound) {
+            playback.nextEventIndex = 0;
+        }
+        playback.time = target;
+        return { rewound, events: this.takeDueEvents() };
+    }
+
+    private takeDueEvents(): ReplayEvent[] {
+        const playback = this.playback;
+        if (!playback) return [];
+
+        const { events } = playback.replay;
+        const start = playback.nextEventIndex;
+        let end = start;
+        while (end < events.length && events[end].t <= playback.time) {
+            end++;
+        }
+        playback.nextEventIndex = end;
+        return events.slice(start, end);
+    }
+
+    private push(event: ReplayEvent): void {
+        if (!this.recording || this.recordingFull) return;
+        const { events } = this.recording;
+        if (events.length >= REPLAY_CONSTANTS.MAX_EVENTS) {
+            // Snapshots are deltas on top of the first one, dropping the head would leave nothing to play back from
+            this.recordingFull = true;
+            ChatManager.getInstance().addSystemMessage('Replay is full, recording stopped. Press F8 to save it.');
+            return;
+        }
+        events.push(event);
+        this.recording.duration = event.t;
+    }
+
+    private now(): number {
+        return Math.round(performance.now() - this.recordingStartedAt);
+    }
+
+    private async toBlob(replay: ReplayFile): Promise<Blob> {
+        const precision = REPLAY_CONSTANTS.NUMBER_PRECISION;
+        const json = JSON.stringify(replay, (_key, value) =>
+            typeof value === 'number' && !Number.isInteger(value)
+                ? Math.round(value * precision) / precision
+                : value
+        );
+
+        if (typeof CompressionStream === 'undefined') {
+            return new Blob([json], { type: 'application/json' });
+        }
+
+        const stream = new Blob([json]).stream().pipeThrough(new CompressionStream('gzip'));
+        const compressed = await new Response(stream).arrayBuffer();
+        return new Blob([compressed], { type: 'application/gzip' });
+    }
+}
@@ -1,7 +1,8 @@
 import settingsIcon from '../images/settings-icon.png';
 import { ErrorHandler, ErrorType } from '../utils/ErrorHandler';
-
-export type Region = 'NA' | 'EU' | 'ASIA';
+import { NETWORK_PRESETS, type NetworkPresetName } from '../utils/NetworkConditionSimulator';
+import { isRegion, type Region } from '../utils/regions';
+import { config } from '../utils/config';
 
 // Settings constants
 const SETTINGS_CONSTANTS = {
@@ -9,8 +10,9 @@ const SETTINGS_CONSTANTS = {
     VALIDATION: {
         MIN_VOLUME: 0,
         MAX_VOLUME: 1,
-        VALID_REGIONS: ['NA', 'EU', 'ASIA'] as const
     },
+    // Choices for the dev enemy extrapolation setting, in ms
+    EXTRAPOLATION_OPTIONS_MS: [0, 100, 250, 500],
     UI: {
         BUTTON_SIZE: 40,
         MODAL_WIDTH: 320,
@@ -28,7 +30,10 @@ const SETTINGS_CONSTANTS = {
         muteMusic: false,
         muteSfx: false,
         devMode: false,
-        region: 'NA' as const
+        networkPreset: 'off' as const,
+        enemyExtrapolationMs: null,
+        region: 'NA' as const,
+        mutedPlayers: [] as string[]
     }
 } as const;
 
@@ -40,6 +45,9 @@ export interface GameSettings {
     muteMusic: boolean;
     muteSfx: boolean;
     devMode: boolean;
+    networkPreset: NetworkPresetName; // only applied while devMode is on
+    enemyExtrapolationMs: number | null; // null keeps the build's default, only applied while devMode is on
+    mutedPlayers: string[]; // chat is hidden from these player names
 }
 
 type SettingsChangeCallback = (type: string, value: any) => void;
@@ -86,6 +94,9 @@ export class SettingsManager {
             muteMusic: false,
             muteSfx: false,
             devMode: false,
+            networkPreset: 'off',
+            enemyExtrapolationMs: null,
+            mutedPlayers: [],
         };
     }
 
@@ -145,6 +156,9 @@ export class SettingsManager {
             muteMusic: typeof settings.muteMusic === 'boolean' ? settings.muteMusic : defaults.muteMusic,
             muteSfx: typeof settings.muteSfx === 'boolean' ? settings.muteSfx : defaults.muteSfx,
             devMode: typeof settings.devMode === 'boolean' ? settings.devMode : defaults.devMode,
+            networkPreset: this.validateNetworkPreset(settings.networkPreset) ? settings.networkPreset : defaults.networkPreset,
+            enemyExtrapolationMs: this.validateExtrapolationMs(settings.enemyExtrapolationMs) ? settings.enemyExtrapolationMs : defaults.enemyExtrapolationMs,
+            mutedPlayers: this.validateMutedPlayers(settings.mutedPlayers) ? settings.mutedPlayers : defaults.mutedPlayers,
         };
     }
 
@@ -152,7 +166,28 @@ export class SettingsManager {
      * Validate region value
      */
     private validateRegion(region: any): region is Region {
-        return typeof region === 'string' && SETTINGS_CONSTANTS.VALIDATION.VALID_REGIONS.includes(region as any);
+        return isRegion(region);
+    }
+
+    /**
+     * Validate muted player names
+     */
+    private validateMutedPlayers(mutedPlayers: any): mutedPlayers is string[] {
+        return Array.isArray(mutedPlayers) && mutedPlayers.every(name => typeof name === 'string');
+    }
+
+    /**
+     * Validate network simulation preset
+     */
+    private validateNetworkPreset(preset: any): preset is NetworkPresetName {
+        return typeof preset === 'string' && Object.keys(NETWORK_PRESETS).includes(preset);
+    }
+
+    /**
+     * Validate enemy extrapolation window, null means the build's default
+     */
+    private validateExtrapolationMs(ms: any): ms is number | null {
+        return ms === null || (typeof ms === 'number' && Number.isFinite(ms) && ms >= 0);
     }
 
     /**
@@ -194,7 +229,12 @@ export class SettingsManager {
                 throw new Error(`Invalid region: ${region}`);
             }
             
-            this.settings.region = region;            
+            // Region is picked on the login screen rather than in the modal, so persist it right away
+            this.settings.region = region;
+            if (this.tempSettings) {
+                this.tempSettings.region = region;
+            }
+            this.saveSettings();
             // Notify listeners
             this.notifySettingsChange('Region', region);
         } catch (error) {
@@ -206,6 +246,37 @@ export class SettingsManager {
         }
     }
     
+    public getMutedPlayers(): string[] {
+        return [...this.settings.mutedPlayers];
+    }
+
+    public isPlayerMuted(name: string): boolean {
+        return this.settings.mutedPlayers.includes(name);
+    }
+
+    public setPlayerMuted(name: string, muted: boolean): void {
+        try {
+            const mutedPlayers = this.settings.mutedPlayers.filter(mutedName => mutedName !== name);
+            if (muted) {
+                mutedPlayers.push(name);
+            }
+
+            // Muting happens from chat rather than the modal, so persist it right away
+            this.settings.mutedPlayers = mutedPlayers;
+            if (this.tempSettings) {
+                this.tempSettings.mutedPlayers = [...mutedPlayers];
+            }
+            this.saveSettings();
+            this.notifySettingsChange('Muted Players', mutedPlayers);
+        } catch (error) {
+            ErrorHandler.getInstance().handleError(
+                error as Error,
+                ErrorType.VALIDATION,
+                { phase: 'setPlayerMuted', name, muted }
+            );
+        }
+    }
+
     public onModalOpen(callback: ModalCallback): void {
         this.onModalOpenCallback = callback;
     }
@@ -288,6 +359,44 @@ export class SettingsManager {
         this.notifySettingsChange('Developer Mode', enabled);
     }
 
+    public setNetworkPreset(preset: NetworkPresetName): void {
+        try {
+            if (!this.validateNetworkPreset(preset)) {
+                throw new Error(`Invalid network preset: ${preset}`);
+            }
+
+            if (this.tempSettings) {
+                this.tempSettings.networkPreset = preset;
+            }
+            this.notifySettingsChange('Network Conditions', preset);
+        } catch (error) {
+            ErrorHandler.getInstance().handleError(
+                error as Error,
+                ErrorType.VALIDATION,
+                { phase: 'setNetworkPreset', preset }
+            );
+        }
+    }
+
+    public setEnemyExtrapolationMs(ms: number | null): void {
+        try {
+            if (!this.validateExtrapolationMs(ms)) {
+                throw new Error(`Invalid enemy extrapolation: ${ms}`);
+            }
+
+            if (this.tempSettings) {
+                this.tempSettings.enemyExtrapolationMs = ms;
+            }
+            this.notifySettingsChange('Enemy Extrapolation', ms);
+        } catch (error) {
+            ErrorHandler.getInstance().handleError(
+                error as Error,
+                ErrorType.VALIDATION,
+                { phase: 'setEnemyExtrapolationMs', ms }
+            );
+        }
+    }
+
     /**
      * Safely notify all listeners of settings changes
      */
@@ -765,6 +874,23 @@ export class SettingsManager {
                 }
             }
             
+            section.appendChild(this.createSelect(
+                'Network Conditions (dev)',
+                Object.entries(NETWORK_PRESETS).map(([value, preset]) => ({ value, label: preset.label })),
+                this.settings.networkPreset,
+                (value) => this.setNetworkPreset(value as NetworkPresetName)
+            ));
+
+            section.appendChild(this.createSelect(
+                'Enemy Extrapolation (dev)',
+                [
+                    { value: 'default', label: `Default (${config.ENEMY_MAX_EXTRAPOLATION_MS}ms)` },
+                    ...SETTINGS_CONSTANTS.EXTRAPOLATION_OPTIONS_MS.map(ms => ({ value: `${ms}`, label: ms === 0 ? 'Off' : `${ms}ms` })),
+                ],
+                this.settings.enemyExtrapolationMs === null ? 'default' : `${this.settings.enemyExtrapolationMs}`,
+                (value) => this.setEnemyExtrapolationMs(value === 'default' ? null : Number(value))
+            ));
+            
             return section;
         } catch (error) {
             ErrorHandler.getInstance().handleError(
@@ -852,6 +978,77 @@ export class SettingsManager {
         }
     }
     
+    /**
+     * Create a labelled dropdown with error handling
+     */
+    private createSelect(
+        label: string,
+        options: Array<{ value: string; label: string }>,
+        currentValue: string,
+        onChange: (value: string) => void
+    ): HTMLElement {
+        try {
+            const container = document.createElement('div');
+            container.style.cssText = `
+                margin-bottom: 12px;
+                font-family: 'Pixel', sans-serif;
+            `;
+
+            const labelElement = document.createElement('label');
+            labelElement.textContent = label;
+            labelElement.style.cssText = `
+                display: block;
+                margin-bottom: 5px;
+                font-size: 24px;
+                color: #ddd;
+            `;
+
+            const select = document.createElement('select');
+            select.style.cssText = `
+                width: 100%;
+                padding: 6px 10px;
+                font-size: 20px;
+                border: none;
+                border-radius: 4px;
+                background: #252525;
+                color: white;
+                cursor: pointer;
+                font-family: 'Pixel', sans-serif;
+            `;
+
+            for (const option of options) {
+                const optionElement = document.createElement('option');
+                optionElement.value = option.value;
+                optionElement.textContent = option.label;
+                select.appendChild(optionElement);
+            }
+            select.value = currentValue;
+
+            this.addEventListenerSafely(select, 'change', () => {
+                try {
+                    onChange(select.value);
+                } catch (changeError) {
+                    ErrorHandler.getInstance().handleError(
+                        changeError as Error,
+                        ErrorType.VALIDATION,
+                        { phase: 'selectChange', label, value: select.value }
+                    );
+                }
+            });
+
+            container.appendChild(labelElement);
+            container.appendChild(select);
+            return container;
+        } catch (error) {
+            ErrorHandler.getInstance().handleError(
+                error as Error,
+                ErrorType.RENDERING,
+                { phase: 'createSelect', label }
+            );
+            return document.createElement('div');
+        }
+    }
+
     /**
      * Close settings modal with comprehensive cleanup and error handling
      */
@@ -1101,6 +1298,12 @@ export class SettingsManager {
                 case 'muteSfx':
                     this.setMuteSfx(value as boolean);
                     break;
+                case 'networkPreset':
+                    this.setNetworkPreset(value as NetworkPresetName);
+                    break;
+                case 'enemyExtrapolationMs':
+                    this.setEnemyExtrapolationMs(value as number | null);
+                    break;
                 // Add more cases as needed
             }
         }
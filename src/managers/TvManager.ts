@@ -350,7 +350,7 @@ export class TvManager {
     /**
      * Display match events
      */
-    public displayMatchEvent(event: 'start' | 'end' | 'warning', details?: string): void {
+    public displayMatchEvent(event: 'start' | 'end' | 'warning' | 'objective', details?: string): void {
         let message = '';
         let priority = 8;
         
@@ -368,6 +368,9 @@ export class TvManager {
                 message = details || 'Warning!';
                 priority = 9;
                 break;
+            case 'objective':
+                message = details || '';
+                break;
         }
         
         this.addHighPriorityScreen({
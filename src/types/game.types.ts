@@ -11,6 +11,7 @@ export interface PlayerData {
     sprite: Player | undefined;
     activeProjectiles: Set<Projectile>;
     disableInput: boolean;
+    isSpectator: boolean;
 }
 
 export interface PlayerState {
@@ -31,7 +32,14 @@ export interface GameState {
     phase: GamePhase;
     localTick: number;
     accumulator: number;
-    pendingCollisions: Map<string, { projectileId: string, timestamp: number, predictedHealthAfterHit: number }>;
+    pendingCollisions: Map<string, PendingCollision>;
+}
+
+export interface PendingCollision {
+    projectileId: string;
+    timestamp: number;
+    predictedHealthAfterHit: number;
+    killedBySelf?: boolean; // It was our projectile, so we already showed the kill indicator
 }
 
 export interface WorldObjects {
@@ -45,4 +53,4 @@ export interface WorldObjects {
     };
 }
 
-export type GamePhase = 'waiting' | 'active' | 'ended';
\ No newline at end of file
+export type GamePhase = 'waiting' | 'countdown' | 'active' | 'ended';
\ No newline at end of file
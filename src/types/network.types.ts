@@ -3,6 +3,27 @@ import type { PlayerState } from "./game.types";
 
 
 
+export type GameMode = 'ffa' | 'tdm' | 'ctb' | 'koth';
+
+export type TeamId = 'red' | 'blue';
+
+export type PowerUpType = 'fatLoveDefense' | 'fatLoveOffense';
+
+// A power-up someone is holding, it runs out at endsAt
+export interface ActivePowerUpState {
+  type: PowerUpType;
+  endsAt: number; // server time
+  charges: number; // tomatoes Fat Love has eaten, or still has to unleash
+}
+
+// A power-up lying on one of the spawn points waiting to be picked up
+export interface PowerUpSpawnState {
+  id: string;
+  type: PowerUpType;
+  x: number; // bottom center
+  y: number;
+}
+
 export interface PlayerServerState {
   id: string;
   x: number;
@@ -16,6 +37,13 @@ export interface PlayerServerState {
   kills: number;
   deaths: number;
   isDead: boolean;
+  team?: TeamId; // only in team modes
+  captures?: number; // only in capture the basket
+  points?: number; // only in king of the hill
+  hillProgress?: number; // 0-1 towards the next hill point, king of the hill only
+  powerUp?: ActivePowerUpState;
+  ammo?: number; // tomatoes left, the server's count is the real one
+  harvestReadyAt?: number; // server time the ammo bush can refill this player again
 }
 
 
@@ -32,6 +60,13 @@ export interface PlayerServerPartialState {
   kills?: number;
   deaths?: number;
   isDead?: boolean;
+  team?: TeamId;
+  captures?: number;
+  points?: number;
+  hillProgress?: number;
+  powerUp?: ActivePowerUpState;
+  ammo?: number;
+  harvestReadyAt?: number;
 }
 export interface ProjectileServerState {
   id: string;
@@ -54,9 +89,49 @@ export interface ProjectileServerStateUpdate {
 }
 
 
+// Capture the basket: a single basket each team tries to bring back to its own base
+export interface BasketServerState {
+    x: number; // bottom center, follows the carrier while carried
+    y: number;
+    carrierId: string | null;
+}
+
+export interface BaseZone {
+    team: TeamId;
+    left: number;
+    right: number;
+    top: number;
+    bottom: number;
+}
+
+// King of the hill: a zone on top of one of the platforms, scores while exactly one player holds it
+export interface HillZone {
+    left: number;
+    right: number;
+    top: number;
+    bottom: number;
+}
+
+export interface HillServerState {
+    holderId: string | null; // the only player in the zone, null when empty or contested
+    contested: boolean;
+}
+
+export type BasketEventType = 'pickup' | 'drop' | 'capture' | 'return';
+
+export interface BasketEvent {
+    type: BasketEventType;
+    playerId?: string; // missing for 'return', nobody brings it back
+    name?: string;
+    team?: TeamId;
+}
+
 export interface ServerStateUpdate {
     players: PlayerServerState[];
     projectiles: ProjectileServerState[];
+    basket?: BasketServerState; // only in capture the basket
+    hill?: HillServerState; // only in king of the hill
+    powerUps?: PowerUpSpawnState[]; // power-ups waiting to be picked up
     sTick: number; // server tick
     sTime: number; // server timestamp
 };
@@ -74,11 +149,17 @@ export interface PlayerScore {
     kills: number;
     deaths: number;
     name: string;
+    team?: TeamId;
+    captures?: number;
+    points?: number;
 }
 
 export interface InputPayload {
     tick: number;
     vector: InputVector;
+    // Earlier inputs the server hasn't acknowledged yet, oldest first. Resent so a
+    // dropped packet doesn't lose input; the server skips ticks it already processed.
+    redundant?: InputPayload[];
 }
 
 export interface StatePayload {
@@ -92,4 +173,160 @@ export interface NetworkState {
   latestServerSnapshotProcessed: ServerStateUpdate;
   inputBuffer: InputPayload[];
   stateBuffer: StatePayload[];
-}
\ No newline at end of file
+  unacknowledgedInputTicks: number[];
+  connectionInterrupted: boolean;
+}
+
+// Cumulative client-side prediction counters, sampled by the network diagnostics overlay
+export interface ReconciliationStats {
+  corrections: number;        // reconciliations where our predicted position was wrong
+  correctionDistance: number; // total px we were off by
+  tickGap: number;            // local tick minus the last tick the server processed for us
+}
+
+export interface MatchData {
+  matchId: string;
+  region: string;
+  playerId: string;
+  phase?: MatchPhasePayload; // phase at the time we joined, missing when rejoining
+}
+
+// Phases the server moves a match through, it ends with gameOver rather than a phase event
+export type MatchPhase = 'waiting' | 'countdown' | 'active';
+
+export interface MatchSettings {
+  mode: GameMode;
+  killLimit: number; // first to this many kills wins, per team in team modes
+  durationMs: number; // length of the active phase, highest score wins when it runs out
+  captureLimit?: number; // capture the basket is won on captures instead of kills
+  bases?: BaseZone[]; // where each team brings the basket, capture the basket only
+  pointLimit?: number; // king of the hill is won on hill points instead of kills
+  hill?: HillZone; // king of the hill only
+}
+
+export interface MatchPhasePayload {
+  phase: MatchPhase;
+  playerCount: number;
+  minPlayers: number;
+  settings: MatchSettings;
+  countdownEndsAt?: number; // server time the countdown reaches zero
+  matchEndsAt?: number; // server time the active phase runs out
+}
+
+export interface JoinQueuePayload {
+  name: string;
+  region: string;
+  playerMatchId?: string;
+  // Receive stateUpdates without a player in the match
+  spectate?: boolean;
+  // Create or join a private lobby instead of the public queue
+  lobby?: LobbyRequest;
+}
+
+export type LobbyRequest = { action: 'create' } | { action: 'join', code: string };
+
+export interface LobbyMember {
+  name: string;
+  isHost: boolean;
+}
+
+export interface LobbyState {
+  code: string;
+  members: LobbyMember[];
+  isHost: boolean; // whether the receiving client hosts the lobby
+}
+
+export interface ProjectileHitPayload {
+  enemyId: string;
+  projectileId: string;
+  // What the shooter saw, so the server can rewind to that moment and validate the hit
+  renderTime: number; // server time the enemy was rendered at (interpolation render time)
+  enemyPosition: PositionVector;
+  projectilePosition: PositionVector;
+}
+
+export type HitRejectedReason = 'invalid_target' | 'too_old' | 'position_mismatch' | 'missed' | 'no_ammo';
+
+export interface HitRejectedPayload {
+  enemyId: string;
+  projectileId: string;
+  reason: HitRejectedReason;
+}
+
+export interface PingPayload {
+  pingStart: number;
+}
+
+export interface PongPayload {
+  pingStart: number;
+  serverTime: number;
+}
+
+export interface ServerMessagePayload {
+  message: string;
+}
+
+export interface ChatMessagePayload {
+  text: string;
+}
+
+export interface ChatMessage {
+  playerId: string;
+  name: string;
+  text: string;
+  sentAt: number; // server time
+}
+
+export interface QuickChatPayload {
+  id: number; // QUICK_CHAT_OPTIONS id
+}
+
+export interface QuickChatMessage {
+  playerId: string;
+  name: string;
+  id: number;
+}
+
+// Events the game server sends to the client
+export interface ServerToClientEvents {
+  queued: (data: { region: string }) => void;
+  movedToGlobalQueue: () => void;
+  lobbyUpdate: (data: LobbyState) => void;
+  lobbyError: (data: ServerMessagePayload) => void;
+  matchPhase: (data: MatchPhasePayload) => void;
+  matchFound: (data: MatchData) => void;
+  rejoinedMatch: () => void;
+  afkWarning: (data: ServerMessagePayload) => void;
+  afkRemoved: (data: ServerMessagePayload) => void;
+  hitRejected: (data: HitRejectedPayload) => void;
+  chatMessage: (data: ChatMessage) => void;
+  quickChat: (data: QuickChatMessage) => void;
+  basketEvent: (data: BasketEvent) => void;
+  'm-pong': (data: PongPayload) => void;
+  stateUpdate: (state: ServerStateUpdate) => void;
+  gameOver: (scores: PlayerScore[]) => void;
+  matchReset: () => void;
+  showIsLive: () => void;
+}
+
+// Events the client sends to the game server
+export interface ClientToServerEvents {
+  joinQueue: (data: JoinQueuePayload) => void;
+  leaveQueue: () => void;
+  startLobby: () => void;
+  playerInput: (input: InputPayload) => void;
+  projectileHit: (data: ProjectileHitPayload) => void;
+  toggleBystander: (isBystander: boolean) => void;
+  harvestAmmo: () => void;
+  chatMessage: (data: ChatMessagePayload) => void;
+  quickChat: (data: QuickChatPayload) => void;
+  'm-ping': (data: PingPayload) => void;
+}
+
+// Socket.io lifecycle events that listeners outside NetworkManager may subscribe to
+export interface ConnectionEvents {
+  connect: () => void;
+  disconnect: (reason: string) => void;
+}
+
+export type NetworkEvents = ServerToClientEvents & ConnectionEvents;
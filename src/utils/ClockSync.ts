@@ -0,0 +1,190 @@
+// Estimates the offset between our performance.now() clock and the server clock from
+// m-ping/m-pong round trips, roughly the way NTP does:
+//   offset = serverTime - (sentAt + receivedAt) / 2
+// A sample is only as accurate as its round trip is symmetric, so we keep a window of
+// samples, throw away the ones with unusually slow round trips and trust the fastest.
+// The offset handed out is slewed towards the estimate instead of jumping to it, so
+// interpolation that depends on it (EnemyPlayer) doesn't stutter.
+
+export interface ClockSample {
+  rtt: number;
+  offset: number;
+  receivedAt: number;
+}
+
+export interface ClockSyncStats {
+  offset: number;        // offset currently in use (slewed)
+  targetOffset: number;  // latest estimate we are slewing towards
+  uncertainty: number;   // +/- ms, half the RTT of the samples we trust
+  confidence: number;    // 0-1
+  driftMsPerSec: number; // how fast the estimate moves, i.e. clock rate difference
+  bestRtt: number;
+  samples: number;
+  rejected: number;
+}
+
+const MAX_SAMPLES = 16;
+const MIN_SAMPLES_FOR_CONFIDENCE = 5;
+// Samples we trust, taken from the lowest RTTs
+const BEST_SAMPLE_COUNT = 4;
+// RTT further than this many MADs above the median counts as an outlier
+const OUTLIER_MAD_FACTOR = 3;
+// Never treat jitter below this as spread, MAD is 0 on very stable links
+const MIN_MAD_MS = 2;
+// How fast the offset in use may move, 0.05 = 50ms per second
+const MAX_SLEW_RATE = 0.05;
+// Errors larger than this are stepped immediately, slewing would take too long
+const STEP_THRESHOLD_MS = 1000;
+// Uncertainty at which confidence drops to zero
+const MAX_UNCERTAINTY_MS = 100;
+
+const median = (values: number[]): number => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+};
+
+export class ClockSync {
+  private samples: ClockSample[] = [];
+  private rejectedCount: number = 0;
+  private offset: number = 0;
+  private targetOffset: number = 0;
+  private uncertainty: number = Infinity;
+  private driftMsPerSec: number = 0;
+  private lastSlewAt: number | null = null;
+  private hasEstimate: boolean = false;
+
+  /**
+   * Add a round trip. sentAt/receivedAt are performance.now() values, serverTime is the server clock.
+   */
+  public addSample(sentAt: number, serverTime: number, receivedAt: number): void {
+    const rtt = receivedAt - sentAt;
+    if (rtt < 0 || !Number.isFinite(serverTime)) return;
+
+    this.samples.push({ rtt, offset: serverTime - (sentAt + receivedAt) / 2, receivedAt });
+    if (this.samples.length > MAX_SAMPLES) {
+      this.samples.shift();
+    }
+    this.rejectedCount = this.samples.length - this.getAcceptedSamples().length;
+
+    this.updateEstimate(receivedAt);
+  }
+
+  /**
+   * Offset to add to performance.now() to get server time, slewed towards the current estimate
+   */
+  public getOffset(now: number = performance.now()): number {
+    this.slew(now);
+    return this.offset;
+  }
+
+  public getStats(now: number = performance.now()): ClockSyncStats {
+    const trusted = this.getTrustedSamples();
+    return {
+      offset: this.getOffset(now),
+      targetOffset: this.targetOffset,
+      uncertainty: this.uncertainty,
+      confidence: this.getConfidence(),
+      driftMsPerSec: this.driftMsPerSec,
+      bestRtt: trusted.length > 0 ? trusted[0].rtt : 0,
+      samples: this.samples.length,
+      rejected: this.rejectedCount,
+    };
+  }
+
+  public reset(): void {
+    this.samples = [];
+    this.rejectedCount = 0;
+    this.offset = 0;
+    this.targetOffset = 0;
+    this.uncertainty = Infinity;
+    this.driftMsPerSec = 0;
+    this.lastSlewAt = null;
+    this.hasEstimate = false;
+  }
+
+  private updateEstimate(now: number): void {
+    const trusted = this.getTrustedSamples();
+    if (trusted.length === 0) return;
+
+    // Apply whatever slewing is due before moving the target
+    this.slew(now);
+
+    this.targetOffset = median(trusted.map(sample => sample.offset));
+    this.uncertainty = Math.max(...trusted.map(sample => sample.rtt)) / 2;
+    this.driftMsPerSec = this.estimateDrift();
+
+    if (!this.hasEstimate || Math.abs(this.targetOffset - this.offset) > STEP_THRESHOLD_MS) {
+      this.offset = this.targetOffset;
+      this.hasEstimate = true;
+    }
+    this.lastSlewAt = now;
+  }
+
+  /**
+   * Samples whose RTT isn't an outlier against the median
+   */
+  private getAcceptedSamples(): ClockSample[] {
+    if (this.samples.length === 0) return [];
+
+    const rtts = this.samples.map(sample => sample.rtt);
+    const medianRtt = median(rtts);
+    const mad = Math.max(median(rtts.map(rtt => Math.abs(rtt - medianRtt))), MIN_MAD_MS);
+    const maxRtt = medianRtt + OUTLIER_MAD_FACTOR * mad;
+
+    return this.samples.filter(sample => sample.rtt <= maxRtt);
+  }
+
+  /**
+   * Non-outlier samples with the lowest RTTs, fastest first
+   */
+  private getTrustedSamples(): ClockSample[] {
+    return this.getAcceptedSamples()
+      .sort((a, b) => a.rtt - b.rtt)
+      .slice(0, BEST_SAMPLE_COUNT);
+  }
+
+  /**
+   * Least squares slope of offset over time across the accepted samples
+   */
+  private estimateDrift(): number {
+    const rtts = this.samples.map(sample => sample.rtt);
+    const medianRtt = median(rtts);
+    const points = this.samples.filter(sample => sample.rtt <= medianRtt);
+    if (points.length < 3) return 0;
+
+    const meanX = points.reduce((sum, p) => sum + p.receivedAt, 0) / points.length;
+    const meanY = points.reduce((sum, p) => sum + p.offset, 0) / points.length;
+    let numerator = 0;
+    let denominator = 0;
+    for (const p of points) {
+      numerator += (p.receivedAt - meanX) * (p.offset - meanY);
+      denominator += (p.receivedAt - meanX) ** 2;
+    }
+    if (denominator === 0) return 0;
+    return (numerator / denominator) * 1000;
+  }
+
+  private getConfidence(): number {
+    if (!this.hasEstimate) return 0;
+    const sampleFactor = Math.min(1, this.samples.length / MIN_SAMPLES_FOR_CONFIDENCE);
+    const uncertaintyFactor = Math.max(0, 1 - this.uncertainty / MAX_UNCERTAINTY_MS);
+    return sampleFactor * uncertaintyFactor;
+  }
+
+  private slew(now: number): void {
+    if (!this.hasEstimate) return;
+    if (this.lastSlewAt === null) {
+      this.lastSlewAt = now;
+      return;
+    }
+
+    const elapsed = Math.max(0, now - this.lastSlewAt);
+    this.lastSlewAt = now;
+
+    const error = this.targetOffset - this.offset;
+    const maxStep = elapsed * MAX_SLEW_RATE;
+    this.offset += Math.max(-maxStep, Math.min(maxStep, error));
+  }
+}
@@ -0,0 +1,45 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import type { MatchPhasePayload, PlayerScore, ServerStateUpdate } from '../types/network.types';
+import { LocalGameServer, type LocalSocket } from './LocalGameServer';
+
+describe('LocalGameServer', () => {
+    let socket: LocalSocket | null = null;
+
+    afterEach(() => {
+        socket?.disconnect();
+        socket = null;
+    });
+
+    it('plays a queued match through to gameOver', async () => {
+        socket = LocalGameServer.connect({
+            botCount: 2,
+            minPlayers: 1,
+            queueDelayMs: 10,
+            countdownMs: 50,
+            matchDurationMs: 300,
+            seed: 1,
+        });
+        const client = socket;
+        const events: string[] = [];
+        let matchFound: { playerId: string, phase: MatchPhasePayload } | null = null;
+        let lastUpdate: ServerStateUpdate | null = null;
+
+        client.onAny((event: string) => {
+            if (events[events.length - 1] !== event) events.push(event);
+        });
+        client.on('matchFound', (data) => { matchFound = data; });
+        client.on('stateUpdate', (update) => { lastUpdate = update; });
+        client.on('connect', () => client.emit('joinQueue', { name: 'Tester', region: 'NA' }));
+
+        const scores = await new Promise<PlayerScore[]>((resolve) => client.once('gameOver', resolve));
+
+        expect(events.slice(0, 2)).toEqual(['queued', 'matchFound']);
+        expect(events).toContain('stateUpdate');
+        expect(events.indexOf('stateUpdate')).toBeGreaterThan(events.indexOf('matchFound'));
+
+        const { playerId } = matchFound!;
+        expect(lastUpdate!.players.map(player => player.id)).toContain(playerId);
+        expect(scores).toHaveLength(3);
+        expect(scores.map(score => score.name)).toContain('Tester');
+    });
+});
@@ -0,0 +1,1366 @@
+import type {
+  BaseZone,
+  BasketEvent,
+  BasketServerState,
+  ChatMessagePayload,
+  GameMode,
+  HillServerState,
+  HillZone,
+  InputPayload,
+  JoinQueuePayload,
+  LobbyRequest,
+  LobbyState,
+  MatchPhase,
+  MatchPhasePayload,
+  PlayerScore,
+  PlayerServerState,
+  PowerUpSpawnState,
+  HitRejectedReason,
+  ProjectileHitPayload,
+  ProjectileServerState,
+  QuickChatPayload,
+  ServerStateUpdate,
+  TeamId
+} from '../types/network.types';
+import { AMMO } from './ammo';
+import { getRankingScore, isObjectiveMode, isTeamMode } from './gameModes';
+import { INVITE_CODE_ALPHABET, INVITE_CODE_LENGTH } from './inviteCode';
+import { FAT_LOVE, getThrowId, getUnleashTargets, POWER_UPS, POWER_UP_TYPES } from './powerUps';
+import { isSameTeam, TEAMS } from './teams';
+
+// In-process stand-in for the game server. It speaks the same socket protocol as the
+// real server (joinQueue -> queued -> matchFound, matchPhase, stateUpdate snapshots, m-pong,
+// gameOver/matchReset) and fills the match with scripted bots, so the client can be
+// developed and tested without a network. It has no DOM or pixi dependencies and can
+// also be driven from Node.
+
+export interface PlatformBounds {
+  left: number;
+  right: number;
+  top: number;
+  bottom: number;
+}
+
+export interface LocalServerOptions {
+  platforms?: PlatformBounds[];
+  gameBounds?: { left: number; right: number; top: number; bottom: number };
+  ammoBush?: PlatformBounds;
+  botCount?: number;
+  tickRate?: number;
+  mode?: GameMode;
+  killLimit?: number;
+  captureLimit?: number;
+  pointLimit?: number;
+  powerUps?: boolean;
+  minPlayers?: number;
+  countdownMs?: number;
+  matchDurationMs?: number;
+  queueDelayMs?: number;
+  seed?: number;
+}
+
+type Listener = (...args: any[]) => void;
+
+// Physics constants mirror Player so server positions reconcile with client prediction
+const PHYSICS = {
+  SPEED: 750,
+  JUMP_STRENGTH: 750,
+  GRAVITY: 1500,
+  MAX_FALL_SPEED: 1500,
+  PLAYER_WIDTH: 50,
+  PLAYER_HEIGHT: 50,
+} as const;
+
+const PROJECTILE = {
+  SPEED: 30,
+  GRAVITY: 0.05,
+  SIZE: 20,
+  DAMAGE: 10,
+} as const;
+
+const MATCH = {
+  MAX_HEALTH: 100,
+  RESPAWN_DELAY_MS: 3000,
+  INVULNERABILITY_MS: 3000,
+  RESET_DELAY_MS: 10000,
+} as const;
+
+// How far back and how loosely projectileHit reports are validated
+const LAG_COMPENSATION = {
+  MAX_REWIND_MS: 1000,
+  POSITION_TOLERANCE: 60,
+} as const;
+
+const CHAT = {
+  MAX_LENGTH: 120,
+  MAX_MESSAGES: 5,
+  WINDOW_MS: 10000,
+  QUICK_CHAT_COOLDOWN_MS: 3000,
+  QUICK_CHAT_IDS: 8,
+};
+
+// Capture the basket. The basket sits in the middle, each team's base spans one end of the arena.
+const BASKET = {
+  WIDTH: 50,
+  HEIGHT: 40,
+  BASE_WIDTH: 200,
+  RETURN_DELAY_MS: 15000,
+} as const;
+
+// King of the hill. The hill sits on the platform closest to the middle of the arena.
+const HILL = {
+  ZONE_HEIGHT: 150,
+  POINT_MS: 1000, // uncontested time on the hill per point
+  FLOOR_WIDTH: 300, // hill on the floor when the arena has no platforms
+} as const;
+
+// Power-ups wait on top of the platforms (or along the floor without any)
+const POWER_UP = {
+  SIZE: 44,
+  RESPAWN_MS: 20000,
+  MAX_SPAWN_POINTS: 4,
+} as const;
+
+// Where the scene puts the ammo bush, for when the client doesn't pass its bounds
+const AMMO_BUSH = {
+  LEFT: -360,
+  RIGHT: 170,
+  HEIGHT: 360,
+} as const;
+
+// Nobody else can reach a local server, so bots stand in for the friends in a private lobby
+const LOBBY = {
+  BOT_JOIN_INTERVAL_MS: 2000,
+  BOT_HOST_START_DELAY_MS: 8000,
+} as const;
+
+const BOT_NAMES = ['Bowblax', 'Pickles', 'Picasso', 'Trump', 'Ian', 'Dan', 'Zach', 'Olivia'];
+
+interface SimulatedPlayer {
+  state: PlayerServerState;
+  isBot: boolean;
+  isOnSurface: boolean;
+  canDoubleJump: boolean;
+  invulnerableUntil: number;
+  respawnAt: number | null;
+  // Bot scripting
+  moveDirection: number;
+  nextDecisionAt: number;
+  nextShotAt: number;
+}
+
+interface PowerUpSpawnPoint {
+  x: number;
+  y: number;
+  pickup: PowerUpSpawnState | null;
+  respawnAt: number;
+}
+
+interface SimulatedBasket {
+  state: BasketServerState;
+  vy: number;
+  returnAt: number | null; // dropped baskets go back to the middle when nobody picks them up
+}
+
+/**
+ * Client end of the in-process connection. Implements the subset of the socket.io
+ * client socket that NetworkManager relies on.
+ */
+export class LocalSocket {
+  public connected: boolean = false;
+  private listeners: Map<string, Listener[]> = new Map();
+  private anyListeners: Listener[] = [];
+  private server: LocalGameServer;
+
+  constructor(server: LocalGameServer) {
+    this.server = server;
+  }
+
+  public on(event: string, listener: Listener): this {
+    const existing = this.listeners.get(event) ?? [];
+    existing.push(listener);
+    this.listeners.set(event, existing);
+    return this;
+  }
+
+  public once(event: string, listener: Listener): this {
+    const wrapper: Listener = (...args) => {
+      this.off(event, wrapper);
+      listener(...args);
+    };
+    return this.on(event, wrapper);
+  }
+
+  // Catch-all listener for server events, like socket.io it skips connect/disconnect
+  public onAny(listener: Listener): this {
+    this.anyListeners.push(listener);
+    return this;
+  }
+
+  public off(event: string, listener?: Listener): this {
+    if (!listener) {
+      this.listeners.delete(event);
+      return this;
+    }
+    const remaining = (this.listeners.get(event) ?? []).filter(l => l !== listener);
+    this.listeners.set(event, remaining);
+    return this;
+  }
+
+  public removeAllListeners(event?: string): this {
+    if (event) {
+      this.listeners.delete(event);
+    } else {
+      this.listeners.clear();
+    }
+    return this;
+  }
+
+  // Client -> server
+  public emit(event: string, ...args: any[]): this {
+    if (!this.connected) return this;
+    setTimeout(() => this.server.receive(event, args[0]), 0);
+    return this;
+  }
+
+  public connect(): this {
+    if (this.connected) return this;
+    setTimeout(() => {
+      this.connected = true;
+      this.deliver('connect');
+    }, 0);
+    return this;
+  }
+
+  public disconnect(): this {
+    if (!this.connected) return this;
+    this.connected = false;
+    this.server.stop();
+    this.deliver('disconnect', 'io client disconnect');
+    return this;
+  }
+
+  // Server -> client
+  public deliver(event: string, ...args: any[]): void {
+    if (event !== 'connect' && event !== 'disconnect') {
+      for (const listener of [...this.anyListeners]) {
+        listener(event, ...args);
+      }
+    }
+    const listeners = [...(this.listeners.get(event) ?? [])];
+    for (const listener of listeners) {
+      listener(...args);
+    }
+  }
+}
+
+export class LocalGameServer {
+  private readonly options: Required<LocalServerOptions>;
+  private readonly socket: LocalSocket;
+  private players: Map<string, SimulatedPlayer> = new Map();
+  private projectiles: Map<string, ProjectileServerState> = new Map();
+  private newProjectiles: ProjectileServerState[] = [];
+  private tickIntervalId: ReturnType<typeof setInterval> | null = null;
+  private resetTimeoutId: ReturnType<typeof setTimeout> | null = null;
+  private queueTimeoutId: ReturnType<typeof setTimeout> | null = null;
+  private sTick: number = 0;
+  private matchId: string;
+  private humanId: string | null = null;
+  private spectatorId: string | null = null;
+  private spectatorName: string = 'Spectator';
+  private chatSentAt: number[] = [];
+  private quickChatSentAt = 0;
+  private lobby: LobbyState | null = null;
+  private lobbyOwner: { name: string; region: string } | null = null;
+  private lobbyStartTimeoutId: ReturnType<typeof setTimeout> | null = null;
+  private basket: SimulatedBasket | null = null;
+  private hill: HillZone | null = null;
+  private hillState: HillServerState = { holderId: null, contested: false };
+  private powerUpSpawns: PowerUpSpawnPoint[] = [];
+  // Throws the human made with an empty basket, hits reported for them don't count
+  private emptyThrowIds: Set<string> = new Set();
+  private phase: MatchPhase | 'ended' = 'waiting';
+  private countdownEndsAt: number = 0;
+  private countdownTimeoutId: ReturnType<typeof setTimeout> | null = null;
+  private matchEndsAt: number = 0;
+  private matchTimeoutId: ReturnType<typeof setTimeout> | null = null;
+  private randomState: number;
+  // Recent positions per player, used to rewind for hit validation
+  private positionHistory: Map<string, { time: number; x: number; y: number }[]> = new Map();
+
+  private constructor(options: LocalServerOptions) {
+    const gameBounds = options.gameBounds ?? { left: 0, right: 1920, top: 0, bottom: 1080 };
+    this.options = {
+      platforms: options.platforms ?? [],
+      gameBounds,
+      ammoBush: options.ammoBush ?? {
+        left: AMMO_BUSH.LEFT,
+        right: AMMO_BUSH.RIGHT,
+        top: gameBounds.bottom - AMMO_BUSH.HEIGHT,
+        bottom: gameBounds.bottom,
+      },
+      botCount: options.botCount ?? 3,
+      tickRate: options.tickRate ?? 30,
+      mode: options.mode ?? 'ffa',
+      killLimit: options.killLimit ?? 10,
+      captureLimit: options.captureLimit ?? 3,
+      pointLimit: options.pointLimit ?? 30,
+      powerUps: options.powerUps ?? true,
+      minPlayers: options.minPlayers ?? 2,
+      countdownMs: options.countdownMs ?? 3000,
+      matchDurationMs: options.matchDurationMs ?? 5 * 60 * 1000,
+      queueDelayMs: options.queueDelayMs ?? 1500,
+      seed: options.seed ?? Date.now(),
+    };
+    this.randomState = this.options.seed >>> 0;
+    this.matchId = `local-${this.randomId()}`;
+    if (this.options.mode === 'ctb') {
+      this.resetBasket();
+    } else if (this.options.mode === 'koth') {
+      this.hill = this.pickHill();
+    }
+    if (this.options.powerUps) {
+      this.powerUpSpawns = this.createPowerUpSpawns();
+    }
+    this.socket = new LocalSocket(this);
+  }
+
+  /**
+   * Start a local server and return a connected client socket for it
+   */
+  public static connect(options: LocalServerOptions = {}): LocalSocket {
+    const server = new LocalGameServer(options);
+    return server.socket.connect();
+  }
+
+  public receive(event: string, payload: unknown): void {
+    switch (event) {
+      case 'joinQueue':
+        this.handleJoinQueue(payload as JoinQueuePayload);
+        break;
+      case 'leaveQueue':
+        this.handleLeaveQueue();
+        break;
+      case 'startLobby':
+        this.handleStartLobby();
+        break;
+      case 'playerInput':
+        this.handlePlayerInput(payload as InputPayload);
+        break;
+      case 'projectileHit':
+        this.handleProjectileHit(payload as ProjectileHitPayload);
+        break;
+      case 'toggleBystander':
+        this.handleToggleBystander();
+        break;
+      case 'harvestAmmo':
+        this.handleHarvestAmmo();
+        break;
+      case 'chatMessage':
+        this.handleChatMessage(payload as ChatMessagePayload);
+        break;
+      case 'quickChat':
+        this.handleQuickChat(payload as QuickChatPayload);
+        break;
+      case 'm-ping':
+        this.socket.deliver('m-pong', { pingStart: (payload as { pingStart: number }).pingStart, serverTime: Date.now() });
+        break;
+      default:
+        console.warn(`[LocalGameServer] Unhandled event: ${event}`);
+    }
+  }
+
+  public stop(): void {
+    if (this.countdownTimeoutId) {
+      clearTimeout(this.countdownTimeoutId);
+      this.countdownTimeoutId = null;
+    }
+    if (this.matchTimeoutId) {
+      clearTimeout(this.matchTimeoutId);
+      this.matchTimeoutId = null;
+    }
+    if (this.tickIntervalId) {
+      clearInterval(this.tickIntervalId);
+      this.tickIntervalId = null;
+    }
+    if (this.resetTimeoutId) {
+      clearTimeout(this.resetTimeoutId);
+      this.resetTimeoutId = null;
+    }
+    this.handleLeaveQueue();
+  }
+
+  private handleJoinQueue({ name, region, playerMatchId, spectate, lobby }: JoinQueuePayload): void {
+    if (playerMatchId && (this.players.has(playerMatchId) || playerMatchId === this.spectatorId)) {
+      this.socket.deliver('rejoinedMatch');
+      if (this.phase !== 'ended') {
+        this.socket.deliver('matchPhase', this.getPhasePayload(this.phase));
+      }
+      return;
+    }
+
+    if (lobby && !spectate) {
+      this.joinLobby(name, region, lobby);
+      return;
+    }
+
+    this.socket.deliver('queued', { region });
+    this.queueTimeoutId = setTimeout(() => {
+      this.queueTimeoutId = null;
+      this.startMatch(name, region, !!spectate, this.options.botCount);
+    }, this.options.queueDelayMs);
+  }
+
+  private startMatch(name: string, region: string, spectate: boolean, botCount: number): void {
+    if (!this.socket.connected) return;
+    let playerId: string;
+    if (spectate) {
+      // Spectators get snapshots but never appear in them
+      this.spectatorId = this.randomId();
+      this.spectatorName = name;
+      playerId = this.spectatorId;
+    } else {
+      const human = this.spawnPlayer(name, false);
+      this.humanId = human.state.id;
+      playerId = human.state.id;
+    }
+    for (let i = 0; i < botCount; i++) {
+      this.spawnPlayer(BOT_NAMES[i % BOT_NAMES.length], true);
+    }
+    const phase = this.enterPhase(this.players.size >= this.options.minPlayers ? 'countdown' : 'waiting');
+    this.socket.deliver('matchFound', { matchId: this.matchId, region, playerId, phase });
+    this.start();
+  }
+
+  /**
+   * Move the match to a pre-match phase or live. The countdown schedules its own switch to active.
+   */
+  private enterPhase(phase: MatchPhase): MatchPhasePayload {
+    this.phase = phase;
+    if (phase === 'countdown') {
+      this.countdownEndsAt = Date.now() + this.options.countdownMs;
+      this.countdownTimeoutId = setTimeout(() => {
+        this.countdownTimeoutId = null;
+        this.socket.deliver('matchPhase', this.enterPhase('active'));
+      }, this.options.countdownMs);
+    } else if (phase === 'active') {
+      this.matchEndsAt = Date.now() + this.options.matchDurationMs;
+      this.matchTimeoutId = setTimeout(() => {
+        this.matchTimeoutId = null;
+        this.endMatch();
+      }, this.options.matchDurationMs);
+    }
+    return this.getPhasePayload(phase);
+  }
+
+  private getPhasePayload(phase: MatchPhase): MatchPhasePayload {
+    return {
+      phase,
+      playerCount: this.players.size,
+      minPlayers: this.options.minPlayers,
+      settings: {
+        mode: this.options.mode,
+        killLimit: this.options.killLimit,
+        durationMs: this.options.matchDurationMs,
+        captureLimit: this.basket ? this.options.captureLimit : undefined,
+        bases: this.basket ? this.getBases() : undefined,
+        pointLimit: this.hill ? this.options.pointLimit : undefined,
+        hill: this.hill ?? undefined,
+      },
+      countdownEndsAt: phase === 'countdown' ? this.countdownEndsAt : undefined,
+      matchEndsAt: phase === 'active' ? this.matchEndsAt : undefined,
+    };
+  }
+
+  /**
+   * Created lobbies fill up with bots until the host starts. Joining by code puts us in a
+   * lobby a bot hosts, which it starts on its own after a while.
+   */
+  private joinLobby(name: string, region: string, request: LobbyRequest): void {
+    const isHost = request.action === 'create';
+    this.lobby = {
+      code: request.action === 'join' ? request.code : this.randomInviteCode(),
+      members: isHost
+        ? [{ name, isHost: true }]
+        : [{ name: BOT_NAMES[0], isHost: true }, { name, isHost: false }],
+      isHost,
+    };
+    this.lobbyOwner = { name, region };
+    this.socket.deliver('lobbyUpdate', this.lobby);
+
+    // Joining by code puts us in a bot's lobby, that host is the first bot
+    let botCount = isHost ? 0 : 1;
+    const addBot = () => {
+      if (!this.lobby || botCount >= this.options.botCount) return;
+      this.lobby.members.push({ name: BOT_NAMES[botCount % BOT_NAMES.length], isHost: false });
+      botCount++;
+      this.socket.deliver('lobbyUpdate', this.lobby);
+      this.queueTimeoutId = setTimeout(addBot, LOBBY.BOT_JOIN_INTERVAL_MS);
+    };
+    this.queueTimeoutId = setTimeout(addBot, LOBBY.BOT_JOIN_INTERVAL_MS);
+
+    if (!isHost) {
+      this.lobbyStartTimeoutId = setTimeout(() => {
+        this.lobbyStartTimeoutId = null;
+        this.startLobbyMatch(name, region);
+      }, LOBBY.BOT_HOST_START_DELAY_MS);
+    }
+  }
+
+  private handleStartLobby(): void {
+    if (!this.lobby?.isHost || !this.lobbyOwner) return;
+    this.startLobbyMatch(this.lobbyOwner.name, this.lobbyOwner.region);
+  }
+
+  private startLobbyMatch(name: string, region: string): void {
+    if (!this.lobby) return;
+    const botCount = this.lobby.members.length - 1;
+    this.handleLeaveQueue();
+    this.startMatch(name, region, false, botCount);
+  }
+
+  private randomInviteCode(): string {
+    let code = '';
+    for (let i = 0; i < INVITE_CODE_LENGTH; i++) {
+      code += INVITE_CODE_ALPHABET[Math.floor(this.random() * INVITE_CODE_ALPHABET.length)];
+    }
+    return code;
+  }
+
+  private handleChatMessage({ text }: ChatMessagePayload): void {
+    const human = this.humanId ? this.players.get(this.humanId) : undefined;
+    const playerId = human?.state.id ?? this.spectatorId;
+    if (!playerId || typeof text !== 'string') return;
+
+    // Same limits the real server enforces, clients can't be trusted to apply them
+    const now = Date.now();
+    this.chatSentAt = this.chatSentAt.filter(sentAt => now - sentAt < CHAT.WINDOW_MS);
+    if (this.chatSentAt.length >= CHAT.MAX_MESSAGES) return;
+    this.chatSentAt.push(now);
+
+    const trimmed = text.trim().slice(0, CHAT.MAX_LENGTH);
+    if (!trimmed) return;
+
+    this.socket.deliver('chatMessage', {
+      playerId,
+      name: human?.state.name ?? this.spectatorName,
+      text: trimmed,
+      sentAt: now,
+    });
+  }
+
+  private handleQuickChat({ id }: QuickChatPayload): void {
+    const human = this.humanId ? this.players.get(this.humanId) : undefined;
+    const playerId = human?.state.id ?? this.spectatorId;
+    if (!playerId || !Number.isInteger(id) || id < 1 || id > CHAT.QUICK_CHAT_IDS) return;
+
+    const now = Date.now();
+    if (now - this.quickChatSentAt < CHAT.QUICK_CHAT_COOLDOWN_MS) return;
+    this.quickChatSentAt = now;
+
+    this.socket.deliver('quickChat', {
+      playerId,
+      name: human?.state.name ?? this.spectatorName,
+      id,
+    });
+  }
+
+  private handleLeaveQueue(): void {
+    if (this.queueTimeoutId) {
+      clearTimeout(this.queueTimeoutId);
+      this.queueTimeoutId = null;
+    }
+    if (this.lobbyStartTimeoutId) {
+      clearTimeout(this.lobbyStartTimeoutId);
+      this.lobbyStartTimeoutId = null;
+    }
+    this.lobby = null;
+    this.lobbyOwner = null;
+  }
+
+  private handlePlayerInput(input: InputPayload): void {
+    const human = this.humanId ? this.players.get(this.humanId) : undefined;
+    // Players can already move around while waiting and counting down
+    if (!human || human.state.isDead || this.phase === 'ended') return;
+
+    // Replay resent inputs we missed, then the new one, skipping anything already processed
+    for (const entry of [...(input.redundant ?? []), input]) {
+      if (entry.tick <= human.state.tick) continue;
+      this.stepPlayer(human, entry.vector.x, entry.vector.y, 1 / this.options.tickRate);
+      human.state.tick = entry.tick;
+      if (entry.vector.mouse && !human.state.by && this.phase === 'active') {
+        this.spendAmmo(human, entry.vector.mouse.id);
+      }
+      // The client fans out the unleash itself and reports the hits, we only take the power-up away
+      if (entry.vector.mouse && human.state.powerUp?.type === 'fatLoveOffense' && this.phase === 'active') {
+        human.state.powerUp = undefined;
+      }
+    }
+  }
+
+  private handleProjectileHit(hit: ProjectileHitPayload): void {
+    const shooter = this.humanId ? this.players.get(this.humanId) : undefined;
+    const target = this.players.get(hit.enemyId);
+    if (!shooter || !target) return;
+
+    const rejection = this.emptyThrowIds.has(getThrowId(hit.projectileId))
+      ? 'no_ammo'
+      : this.validateHit(hit, shooter, target);
+    if (rejection) {
+      this.socket.deliver('hitRejected', { enemyId: hit.enemyId, projectileId: hit.projectileId, reason: rejection });
+      return;
+    }
+    if (this.absorbProjectile(target)) return;
+    this.applyDamage(target, shooter);
+  }
+
+  /**
+   * Rewind the target to the time the shooter saw it and check the reported hit against that
+   */
+  private validateHit(hit: ProjectileHitPayload, shooter: SimulatedPlayer, target: SimulatedPlayer): HitRejectedReason | null {
+    if (target.state.isDead || target.state.by || Date.now() < target.invulnerableUntil) {
+      return 'invalid_target';
+    }
+    if (isSameTeam(shooter.state.team, target.state.team)) {
+      return 'invalid_target';
+    }
+
+    const rewound = this.getPositionAt(target.state.id, hit.renderTime);
+    if (!rewound) return 'too_old';
+
+    const { POSITION_TOLERANCE } = LAG_COMPENSATION;
+    if (Math.hypot(rewound.x - hit.enemyPosition.x, rewound.y - hit.enemyPosition.y) > POSITION_TOLERANCE) {
+      return 'position_mismatch';
+    }
+
+    // Positions are bottom center, the projectile has to touch the rewound body
+    const halfWidth = PHYSICS.PLAYER_WIDTH / 2 + PROJECTILE.SIZE + POSITION_TOLERANCE;
+    const { x, y } = hit.projectilePosition;
+    const isInsideBody = x >= rewound.x - halfWidth
+      && x <= rewound.x + halfWidth
+      && y >= rewound.y - PHYSICS.PLAYER_HEIGHT - PROJECTILE.SIZE - POSITION_TOLERANCE
+      && y <= rewound.y + PROJECTILE.SIZE + POSITION_TOLERANCE;
+    return isInsideBody ? null : 'missed';
+  }
+
+  private recordPositions(now: number): void {
+    for (const player of this.players.values()) {
+      const history = this.positionHistory.get(player.state.id) ?? [];
+      history.push({ time: now, x: player.state.x, y: player.state.y });
+      while (history.length > 0 && now - history[0].time > LAG_COMPENSATION.MAX_REWIND_MS) {
+        history.shift();
+      }
+      this.positionHistory.set(player.state.id, history);
+    }
+  }
+
+  private getPositionAt(playerId: string, time: number): { x: number; y: number } | null {
+    const history = this.positionHistory.get(playerId);
+    if (!history || history.length === 0 || time < history[0].time) return null;
+
+    for (let i = history.length - 1; i >= 0; i--) {
+      const from = history[i];
+      if (from.time > time) continue;
+      const to = history[i + 1];
+      if (!to) return { x: from.x, y: from.y };
+      const t = (time - from.time) / (to.time - from.time);
+      return { x: from.x + (to.x - from.x) * t, y: from.y + (to.y - from.y) * t };
+    }
+    return null;
+  }
+
+  private handleToggleBystander(): void {
+    const human = this.humanId ? this.players.get(this.humanId) : undefined;
+    if (!human) return;
+    human.state.by = !human.state.by;
+    if (human.state.by) {
+      this.dropBasket(human);
+      human.state.powerUp = undefined;
+    } else {
+      // Joining happens at the ammo bush, so everyone walks in with a full basket
+      human.state.ammo = AMMO.MAX;
+      human.invulnerableUntil = Date.now() + MATCH.INVULNERABILITY_MS;
+    }
+  }
+
+  private handleHarvestAmmo(): void {
+    const human = this.humanId ? this.players.get(this.humanId) : undefined;
+    if (!human || human.state.isDead || human.state.by || this.phase === 'ended') return;
+    this.harvestAmmo(human, Date.now());
+  }
+
+  /**
+   * Refill from the ammo bush if the player is standing at it and it has grown back for them
+   */
+  private harvestAmmo(player: SimulatedPlayer, now: number): boolean {
+    if (now < (player.state.harvestReadyAt ?? 0) || !this.isTouchingZone(player, this.options.ammoBush)) {
+      return false;
+    }
+    player.state.ammo = AMMO.MAX;
+    player.state.harvestReadyAt = now + AMMO.HARVEST_COOLDOWN_MS;
+    return true;
+  }
+
+  /**
+   * Take a tomato for a throw. Throws made with an empty basket are remembered so their hits get rejected.
+   */
+  private spendAmmo(player: SimulatedPlayer, throwId?: string): boolean {
+    const ammo = player.state.ammo ?? 0;
+    if (ammo > 0) {
+      player.state.ammo = ammo - 1;
+      return true;
+    }
+    if (throwId) {
+      this.emptyThrowIds.add(throwId);
+      if (this.emptyThrowIds.size > AMMO.MAX) {
+        // Hits come in within a second of the throw, only the latest few matter
+        this.emptyThrowIds.delete(this.emptyThrowIds.values().next().value!);
+      }
+    }
+    return false;
+  }
+
+  private start(): void {
+    if (this.tickIntervalId) return;
+    this.tickIntervalId = setInterval(() => this.tick(), 1000 / this.options.tickRate);
+  }
+
+  private tick(): void {
+    const now = Date.now();
+    this.sTick++;
+
+    for (const player of this.players.values()) {
+      if (player.state.isDead) {
+        if (player.respawnAt !== null && now >= player.respawnAt && this.phase === 'active') {
+          this.respawnPlayer(player);
+        }
+        continue;
+      }
+      if (player.isBot && this.phase === 'active') {
+        this.updateBot(player, now);
+      }
+    }
+
+    this.updateProjectiles(now);
+    if (this.basket && this.phase === 'active') {
+      this.updateBasket(now);
+    }
+    if (this.hill && this.phase === 'active') {
+      this.updateHill();
+    }
+    if (this.powerUpSpawns.length > 0 && this.phase === 'active') {
+      this.updatePowerUps(now);
+    }
+    this.recordPositions(now);
+
+    const update: ServerStateUpdate = {
+      players: Array.from(this.players.values()).map(player => ({ ...player.state })),
+      projectiles: this.newProjectiles,
+      sTick: this.sTick,
+      sTime: now,
+      basket: this.basket ? { ...this.basket.state } : undefined,
+      hill: this.hill ? { ...this.hillState } : undefined,
+      powerUps: this.powerUpSpawns.length > 0
+        ? this.powerUpSpawns.flatMap(spawn => spawn.pickup ? [spawn.pickup] : [])
+        : undefined,
+    };
+    this.newProjectiles = [];
+    this.socket.deliver('stateUpdate', update);
+  }
+
+  private updateBot(bot: SimulatedPlayer, now: number): void {
+    const { left, right } = this.options.gameBounds;
+    const goal = this.getBotGoal(bot);
+    if (now >= bot.nextDecisionAt) {
+      bot.moveDirection = goal && this.random() < 0.7
+        ? (Math.abs(goal.x - bot.state.x) < PHYSICS.PLAYER_WIDTH ? 0 : Math.sign(goal.x - bot.state.x))
+        : Math.floor(this.random() * 3) - 1;
+      bot.nextDecisionAt = now + 500 + this.random() * 1500;
+    }
+    if (bot.state.x <= left + PHYSICS.PLAYER_WIDTH) bot.moveDirection = 1;
+    if (bot.state.x >= right - PHYSICS.PLAYER_WIDTH) bot.moveDirection = -1;
+
+    // Jump more often when the goal is up on a platform, and double jump at the top of the arc
+    const wantsUp = goal !== null && goal.y < bot.state.y - PHYSICS.PLAYER_HEIGHT;
+    const isAtApex = !bot.isOnSurface && bot.canDoubleJump && bot.state.vy >= 0;
+    const jump = (bot.isOnSurface && this.random() < (wantsUp ? 0.08 : 0.02)) || (wantsUp && isAtApex) ? -1 : 0;
+    this.stepPlayer(bot, bot.moveDirection, jump, 1 / this.options.tickRate);
+
+    if (!bot.state.ammo) {
+      this.harvestAmmo(bot, now);
+    }
+
+    const target = this.pickTarget(bot);
+    if (now >= bot.nextShotAt && target && !target.state.isDead && !target.state.by && this.spendAmmo(bot)) {
+      const aim = { x: target.state.x, y: target.state.y - PHYSICS.PLAYER_HEIGHT / 2 };
+      if (bot.state.powerUp?.type === 'fatLoveOffense') {
+        const origin = { x: bot.state.x, y: bot.state.y - PHYSICS.PLAYER_HEIGHT };
+        for (const spread of getUnleashTargets(origin, aim, bot.state.powerUp.charges)) {
+          this.spawnProjectile(bot, spread.x, spread.y);
+        }
+        bot.state.powerUp = undefined;
+      } else {
+        this.spawnProjectile(bot, aim.x, aim.y);
+      }
+      bot.nextShotAt = now + 1200 + this.random() * 1800;
+    }
+  }
+
+  /**
+   * Bots shoot at the human, or at each other when a spectator is watching.
+   * In team modes they always go for the closest player on the other team.
+   */
+  private pickTarget(bot: SimulatedPlayer): SimulatedPlayer | undefined {
+    const teamMode = isTeamMode(this.options.mode);
+    if (this.humanId && !teamMode) return this.players.get(this.humanId);
+    if (!this.spectatorId && !teamMode) return undefined;
+
+    let closest: SimulatedPlayer | undefined;
+    let closestDistance = Infinity;
+    for (const player of this.players.values()) {
+      if (player === bot || player.state.isDead || player.state.by) continue;
+      if (isSameTeam(player.state.team, bot.state.team)) continue;
+      const distance = Math.abs(player.state.x - bot.state.x) + Math.abs(player.state.y - bot.state.y);
+      if (distance < closestDistance) {
+        closest = player;
+        closestDistance = distance;
+      }
+    }
+    return closest;
+  }
+
+  private updateProjectiles(now: number): void {
+    const { left, right, top, bottom } = this.options.gameBounds;
+    for (const [id, projectile] of this.projectiles) {
+      projectile.vy += PROJECTILE.GRAVITY;
+      projectile.x += projectile.vx;
+      projectile.y += projectile.vy;
+
+      if (projectile.x < left - 50 || projectile.x > right + 50 || projectile.y < top - 50 || projectile.y > bottom + 50) {
+        this.projectiles.delete(id);
+        continue;
+      }
+
+      const owner = this.players.get(projectile.ownerId);
+      for (const player of this.players.values()) {
+        if (player.state.id === projectile.ownerId || player.state.isDead || player.state.by) continue;
+        // Projectiles fly through teammates
+        if (isSameTeam(player.state.team, owner?.state.team)) continue;
+        if (!this.projectileHitsPlayer(projectile, player)) continue;
+
+        this.projectiles.delete(id);
+        if (this.absorbProjectile(player)) break;
+        // Human projectiles are resolved by the client's projectileHit report
+        const botsFightEachOther = this.spectatorId !== null || isTeamMode(this.options.mode);
+        if (owner?.isBot && (!player.isBot || botsFightEachOther) && now >= player.invulnerableUntil) {
+          this.applyDamage(player, owner);
+        }
+        break;
+      }
+    }
+  }
+
+  private applyDamage(target: SimulatedPlayer, attacker: SimulatedPlayer): void {
+    if (this.phase !== 'active' || target.state.isDead || target.state.by) return;
+    if (isSameTeam(target.state.team, attacker.state.team)) return;
+    if (Date.now() < target.invulnerableUntil) return;
+
+    target.state.hp = Math.max(0, target.state.hp - PROJECTILE.DAMAGE);
+    if (target.state.hp > 0) return;
+
+    target.state.isDead = true;
+    target.state.deaths++;
+    target.respawnAt = Date.now() + MATCH.RESPAWN_DELAY_MS;
+    attacker.state.kills++;
+    this.dropBasket(target);
+    target.state.powerUp = undefined;
+
+    // Objective modes are only won on captures
+    if (!isObjectiveMode(this.options.mode) && this.getKillCount(attacker) >= this.options.killLimit) {
+      this.endMatch();
+    }
+  }
+
+  /**
+   * Kills that count towards the kill limit: the player's own, or the whole team's in team modes
+   */
+  private getKillCount(player: SimulatedPlayer): number {
+    if (!player.state.team) return player.state.kills;
+    let kills = 0;
+    for (const { state } of this.players.values()) {
+      if (state.team === player.state.team) kills += state.kills;
+    }
+    return kills;
+  }
+
+  private endMatch(): void {
+    if (this.matchTimeoutId) {
+      clearTimeout(this.matchTimeoutId);
+      this.matchTimeoutId = null;
+    }
+    this.phase = 'ended';
+    this.projectiles.clear();
+    const scores: PlayerScore[] = Array.from(this.players.values())
+      .map(({ state }) => ({
+        playerId: state.id,
+        kills: state.kills,
+        deaths: state.deaths,
+        name: state.name,
+        team: state.team,
+        captures: state.captures,
+        points: state.points,
+      }))
+      .sort((a, b) => getRankingScore(b) - getRankingScore(a) || b.kills - a.kills);
+    this.socket.deliver('gameOver', scores);
+
+    this.resetTimeoutId = setTimeout(() => {
+      this.resetTimeoutId = null;
+      for (const player of this.players.values()) {
+        player.state.kills = 0;
+        player.state.deaths = 0;
+        player.state.captures = this.basket ? 0 : undefined;
+        player.state.points = this.hill ? 0 : undefined;
+        player.state.hillProgress = this.hill ? 0 : undefined;
+        player.state.powerUp = undefined;
+        player.state.harvestReadyAt = 0;
+        this.respawnPlayer(player);
+      }
+      if (this.basket) {
+        this.resetBasket();
+      }
+      this.hillState = { holderId: null, contested: false };
+      for (const spawn of this.powerUpSpawns) {
+        spawn.pickup = null;
+        spawn.respawnAt = 0;
+      }
+      this.emptyThrowIds.clear();
+      this.socket.deliver('matchReset');
+      this.socket.deliver('matchPhase', this.enterPhase('countdown'));
+    }, MATCH.RESET_DELAY_MS);
+  }
+
+  /**
+   * Carry the basket along, hand it to whoever touches it and score it in the carrier's base
+   */
+  private updateBasket(now: number): void {
+    const basket = this.basket!;
+    const carrier = basket.state.carrierId ? this.players.get(basket.state.carrierId) : undefined;
+
+    if (carrier) {
+      basket.state.x = carrier.state.x;
+      basket.state.y = carrier.state.y;
+      const base = this.getBases().find(zone => zone.team === carrier.state.team);
+      if (base && this.isInsideZone(carrier, base)) {
+        this.captureBasket(carrier);
+      }
+      return;
+    }
+
+    if (basket.returnAt !== null && now >= basket.returnAt) {
+      this.resetBasket();
+      this.deliverBasketEvent({ type: 'return' });
+      return;
+    }
+
+    this.stepBasket(1 / this.options.tickRate);
+    for (const player of this.players.values()) {
+      if (player.state.isDead || player.state.by || !this.basketTouchesPlayer(player)) continue;
+      basket.state.carrierId = player.state.id;
+      basket.returnAt = null;
+      this.deliverBasketEvent({ type: 'pickup', playerId: player.state.id, name: player.state.name, team: player.state.team });
+      break;
+    }
+  }
+
+  private captureBasket(carrier: SimulatedPlayer): void {
+    carrier.state.captures = (carrier.state.captures ?? 0) + 1;
+    this.resetBasket();
+    this.deliverBasketEvent({ type: 'capture', playerId: carrier.state.id, name: carrier.state.name, team: carrier.state.team });
+
+    let teamCaptures = 0;
+    for (const { state } of this.players.values()) {
+      if (state.team === carrier.state.team) teamCaptures += state.captures ?? 0;
+    }
+    if (teamCaptures >= this.options.captureLimit) {
+      this.endMatch();
+    }
+  }
+
+  /**
+   * Leave the basket where its carrier died or stepped out of the fight
+   */
+  private dropBasket(player: SimulatedPlayer): void {
+    if (!this.basket || this.basket.state.carrierId !== player.state.id) return;
+    this.basket.state = { x: player.state.x, y: player.state.y, carrierId: null };
+    this.basket.vy = 0;
+    this.basket.returnAt = Date.now() + BASKET.RETURN_DELAY_MS;
+    this.deliverBasketEvent({ type: 'drop', playerId: player.state.id, name: player.state.name, team: player.state.team });
+  }
+
+  private resetBasket(): void {
+    const { left, right, bottom } = this.options.gameBounds;
+    this.basket = {
+      state: { x: Math.round((left + right) / 2), y: bottom, carrierId: null },
+      vy: 0,
+      returnAt: null,
+    };
+  }
+
+  /**
+   * Let a dropped basket fall onto the platform or floor below it
+   */
+  private stepBasket(dt: number): void {
+    const basket = this.basket!;
+    const previousY = basket.state.y;
+    basket.vy = Math.min(basket.vy + PHYSICS.GRAVITY * dt, PHYSICS.MAX_FALL_SPEED);
+    let y = Math.min(previousY + basket.vy * dt, this.options.gameBounds.bottom);
+
+    for (const platform of this.options.platforms) {
+      const isWithinPlatformWidth = basket.state.x > platform.left && basket.state.x < platform.right;
+      if (isWithinPlatformWidth && previousY <= platform.top && y >= platform.top) {
+        y = platform.top;
+        break;
+      }
+    }
+    if (y === previousY || y === this.options.gameBounds.bottom) {
+      basket.vy = 0;
+    }
+    basket.state.y = y;
+  }
+
+  private basketTouchesPlayer(player: SimulatedPlayer): boolean {
+    const { x, y } = this.basket!.state;
+    return (
+      Math.abs(player.state.x - x) < (PHYSICS.PLAYER_WIDTH + BASKET.WIDTH) / 2
+      && player.state.y > y - BASKET.HEIGHT
+      && player.state.y - PHYSICS.PLAYER_HEIGHT < y
+    );
+  }
+
+  private getBases(): BaseZone[] {
+    const { left, right, top, bottom } = this.options.gameBounds;
+    return [
+      { team: 'red', left, right: left + BASKET.BASE_WIDTH, top, bottom },
+      { team: 'blue', left: right - BASKET.BASE_WIDTH, right, top, bottom },
+    ];
+  }
+
+  private isInsideZone(player: SimulatedPlayer, zone: PlatformBounds): boolean {
+    const { x, y } = player.state;
+    return x >= zone.left && x <= zone.right && y >= zone.top && y <= zone.bottom;
+  }
+
+  /**
+   * Any part of the player's body overlaps the zone, not just the feet
+   */
+  private isTouchingZone(player: SimulatedPlayer, zone: PlatformBounds): boolean {
+    const { x, y } = player.state;
+    const halfWidth = PHYSICS.PLAYER_WIDTH / 2;
+    return x + halfWidth >= zone.left
+      && x - halfWidth <= zone.right
+      && y >= zone.top
+      && y - PHYSICS.PLAYER_HEIGHT <= zone.bottom;
+  }
+
+  /**
+   * Where a bot heads in the objective modes. In capture the basket that is the basket, the
+   * carrier it has to stop or its own base, in king of the hill the hill.
+   * Null when there is nothing to go for and it should wander.
+   */
+  private getBotGoal(bot: SimulatedPlayer): { x: number; y: number } | null {
+    if (this.phase !== 'active') return null;
+    if (!bot.state.ammo) {
+      // Out of tomatoes, everything else waits until the basket is full again
+      const zone = this.options.ammoBush;
+      return { x: (Math.max(zone.left, this.options.gameBounds.left) + zone.right) / 2, y: zone.bottom };
+    }
+    if (this.hill) {
+      return { x: (this.hill.left + this.hill.right) / 2, y: this.hill.bottom };
+    }
+    if (!this.basket) return null;
+
+    const carrier = this.basket.state.carrierId ? this.players.get(this.basket.state.carrierId) : undefined;
+    if (carrier === bot) {
+      const base = this.getBases().find(zone => zone.team === bot.state.team);
+      return base ? { x: (base.left + base.right) / 2, y: base.bottom } : null;
+    }
+    if (carrier && isSameTeam(carrier.state.team, bot.state.team)) return null;
+    return { x: this.basket.state.x, y: this.basket.state.y };
+  }
+
+  /**
+   * Score whoever stands on the hill alone. Nobody progresses while it is contested,
+   * stepping off (or dying) loses the progress towards the next point.
+   */
+  private updateHill(): void {
+    const hill = this.hill!;
+    const occupants = Array.from(this.players.values())
+      .filter(player => !player.state.isDead && !player.state.by && this.isInsideZone(player, hill));
+    const contested = occupants.length > 1;
+    this.hillState = { holderId: occupants.length === 1 ? occupants[0].state.id : null, contested };
+
+    for (const player of this.players.values()) {
+      if (!occupants.includes(player)) {
+        player.state.hillProgress = 0;
+        continue;
+      }
+      if (contested) continue;
+
+      const progress = (player.state.hillProgress ?? 0) + 1000 / this.options.tickRate / HILL.POINT_MS;
+      if (progress < 1) {
+        player.state.hillProgress = progress;
+        continue;
+      }
+      player.state.hillProgress = progress - 1;
+      player.state.points = (player.state.points ?? 0) + 1;
+      if (player.state.points >= this.options.pointLimit) {
+        this.endMatch();
+        return;
+      }
+    }
+  }
+
+  private pickHill(): HillZone {
+    const { left, right, bottom } = this.options.gameBounds;
+    const center = (left + right) / 2;
+    let platform: PlatformBounds | undefined;
+    for (const candidate of this.options.platforms) {
+      const distance = Math.abs((candidate.left + candidate.right) / 2 - center);
+      if (!platform || distance < Math.abs((platform.left + platform.right) / 2 - center)) {
+        platform = candidate;
+      }
+    }
+    const floor = platform ?? { left: center - HILL.FLOOR_WIDTH / 2, right: center + HILL.FLOOR_WIDTH / 2, top: bottom };
+    return { left: floor.left, right: floor.right, top: floor.top - HILL.ZONE_HEIGHT, bottom: floor.top };
+  }
+
+  private deliverBasketEvent(event: BasketEvent): void {
+    this.socket.deliver('basketEvent', event);
+  }
+
+  /**
+   * Restock empty spawn points, hand out power-ups to whoever touches them and run out
+   * the ones being held. A Feast that ate something turns into an Unleash when it ends.
+   */
+  private updatePowerUps(now: number): void {
+    for (const spawn of this.powerUpSpawns) {
+      if (!spawn.pickup && now >= spawn.respawnAt) {
+        const type = POWER_UP_TYPES[Math.floor(this.random() * POWER_UP_TYPES.length)];
+        spawn.pickup = { id: this.randomId(), type, x: spawn.x, y: spawn.y };
+      }
+      if (!spawn.pickup) continue;
+
+      for (const player of this.players.values()) {
+        if (player.state.isDead || player.state.by || player.state.powerUp) continue;
+        if (!this.pickupTouchesPlayer(spawn.pickup, player)) continue;
+        const { type } = spawn.pickup;
+        player.state.powerUp = {
+          type,
+          endsAt: now + POWER_UPS[type].durationMs,
+          charges: type === 'fatLoveOffense' ? FAT_LOVE.OFFENSE_CHARGES : 0,
+        };
+        spawn.pickup = null;
+        spawn.respawnAt = now + POWER_UP.RESPAWN_MS;
+        break;
+      }
+    }
+
+    for (const { state } of this.players.values()) {
+      if (!state.powerUp || now < state.powerUp.endsAt) continue;
+      const { type, charges } = state.powerUp;
+      state.powerUp = type === 'fatLoveDefense' && charges > 0
+        ? { type: 'fatLoveOffense', endsAt: now + POWER_UPS.fatLoveOffense.durationMs, charges }
+        : undefined;
+    }
+  }
+
+  /**
+   * Fat Love Feast eats the projectile instead of taking damage. Returns whether it did.
+   */
+  private absorbProjectile(player: SimulatedPlayer): boolean {
+    const powerUp = player.state.powerUp;
+    if (powerUp?.type !== 'fatLoveDefense') return false;
+    // Snapshots share the object, replace it rather than counting up in place
+    player.state.powerUp = { ...powerUp, charges: Math.min(FAT_LOVE.MAX_CHARGES, powerUp.charges + 1) };
+    return true;
+  }
+
+  private pickupTouchesPlayer(pickup: PowerUpSpawnState, player: SimulatedPlayer): boolean {
+    return (
+      Math.abs(player.state.x - pickup.x) < (PHYSICS.PLAYER_WIDTH + POWER_UP.SIZE) / 2
+      && player.state.y > pickup.y - POWER_UP.SIZE
+      && player.state.y - PHYSICS.PLAYER_HEIGHT < pickup.y
+    );
+  }
+
+  private createPowerUpSpawns(): PowerUpSpawnPoint[] {
+    const { left, right, bottom } = this.options.gameBounds;
+    const points = this.options.platforms.length > 0
+      ? this.options.platforms
+        .slice(0, POWER_UP.MAX_SPAWN_POINTS)
+        .map(platform => ({ x: Math.round((platform.left + platform.right) / 2), y: platform.top }))
+      : [0.25, 0.75].map(share => ({ x: Math.round(left + (right - left) * share), y: bottom }));
+    return points.map(point => ({ ...point, pickup: null, respawnAt: 0 }));
+  }
+
+  private spawnPlayer(name: string, isBot: boolean): SimulatedPlayer {
+    const id = this.randomId();
+    const player: SimulatedPlayer = {
+      state: {
+        id,
+        name,
+        x: 0,
+        y: 0,
+        vx: 0,
+        vy: 0,
+        hp: MATCH.MAX_HEALTH,
+        by: !isBot, // Humans join as bystanders until they visit the ammo bush
+        tick: 0,
+        kills: 0,
+        deaths: 0,
+        isDead: false,
+        team: isTeamMode(this.options.mode) ? this.pickTeam() : undefined,
+        captures: this.basket ? 0 : undefined,
+        points: this.hill ? 0 : undefined,
+        hillProgress: this.hill ? 0 : undefined,
+        ammo: AMMO.MAX,
+        harvestReadyAt: 0,
+      },
+      isBot,
+      isOnSurface: true,
+      canDoubleJump: true,
+      invulnerableUntil: 0,
+      respawnAt: null,
+      moveDirection: 0,
+      nextDecisionAt: 0,
+      nextShotAt: Date.now() + 2000 + this.random() * 2000,
+    };
+    this.placeAtSpawn(player);
+    this.players.set(id, player);
+    return player;
+  }
+
+  /**
+   * Put new players on whichever team is short a player, red first
+   */
+  private pickTeam(): TeamId {
+    const counts = new Map<TeamId, number>(TEAMS.map(team => [team, 0]));
+    for (const { state } of this.players.values()) {
+      if (state.team) counts.set(state.team, (counts.get(state.team) ?? 0) + 1);
+    }
+    return TEAMS.reduce((smallest, team) => (counts.get(team)! < counts.get(smallest)! ? team : smallest));
+  }
+
+  private respawnPlayer(player: SimulatedPlayer): void {
+    this.placeAtSpawn(player);
+    player.state.hp = MATCH.MAX_HEALTH;
+    player.state.isDead = false;
+    player.state.ammo = AMMO.MAX;
+    player.respawnAt = null;
+    player.invulnerableUntil = Date.now() + MATCH.INVULNERABILITY_MS;
+  }
+
+  private placeAtSpawn(player: SimulatedPlayer): void {
+    const { left, right, bottom } = this.options.gameBounds;
+    const margin = 200;
+    player.state.x = Math.round(left + margin + this.random() * (right - left - margin * 2));
+    player.state.y = bottom;
+    player.state.vx = 0;
+    player.state.vy = 0;
+    player.isOnSurface = true;
+    player.canDoubleJump = true;
+  }
+
+  private spawnProjectile(owner: SimulatedPlayer, targetX: number, targetY: number): void {
+    const spawnX = owner.state.x;
+    const spawnY = owner.state.y - PHYSICS.PLAYER_HEIGHT;
+    const dx = targetX - spawnX;
+    const dy = targetY - spawnY;
+    const magnitude = Math.sqrt(dx * dx + dy * dy) || 1;
+
+    const projectile: ProjectileServerState = {
+      id: this.randomId(),
+      x: spawnX,
+      y: spawnY,
+      vx: (dx / magnitude) * PROJECTILE.SPEED,
+      vy: (dy / magnitude) * PROJECTILE.SPEED,
+      ownerId: owner.state.id,
+      dud: false,
+    };
+    this.projectiles.set(projectile.id, projectile);
+    // Only newly spawned projectiles are sent, the client simulates them from there
+    this.newProjectiles.push({ ...projectile });
+  }
+
+  private projectileHitsPlayer(projectile: ProjectileServerState, player: SimulatedPlayer): boolean {
+    const playerLeft = player.state.x - PHYSICS.PLAYER_WIDTH / 2;
+    const playerTop = player.state.y - PHYSICS.PLAYER_HEIGHT;
+    return (
+      projectile.x < playerLeft + PHYSICS.PLAYER_WIDTH
+      && projectile.x + PROJECTILE.SIZE > playerLeft
+      && projectile.y < playerTop + PHYSICS.PLAYER_HEIGHT
+      && projectile.y + PROJECTILE.SIZE > playerTop
+    );
+  }
+
+  // Same integration steps as Player.update so reconciliation stays quiet
+  private stepPlayer(player: SimulatedPlayer, inputX: number, inputY: number, dt: number): void {
+    const { state } = player;
+    const { left, right, top, bottom } = this.options.gameBounds;
+
+    state.vx = inputX !== 0 ? inputX * PHYSICS.SPEED : 0;
+
+    if (inputY < 0) {
+      if (player.isOnSurface) {
+        state.vy = inputY * PHYSICS.JUMP_STRENGTH;
+        player.canDoubleJump = true;
+        player.isOnSurface = false;
+      } else if (player.canDoubleJump) {
+        state.vy = inputY * PHYSICS.JUMP_STRENGTH;
+        player.canDoubleJump = false;
+      }
+    }
+
+    state.vy = Math.min(state.vy + PHYSICS.GRAVITY * dt, PHYSICS.MAX_FALL_SPEED);
+
+    const halfWidth = PHYSICS.PLAYER_WIDTH / 2;
+    state.x = Math.max(left + halfWidth, Math.min(state.x + state.vx * dt, right - halfWidth));
+    state.y = Math.max(top, Math.min(state.y + state.vy * dt, bottom));
+
+    if (state.y === bottom) {
+      player.canDoubleJump = true;
+      state.vy = 0;
+    }
+
+    let isOnPlatform = false;
+    for (const platform of this.options.platforms) {
+      const playerLeft = state.x - halfWidth;
+      const playerRight = playerLeft + PHYSICS.PLAYER_WIDTH;
+      const isGoingDown = state.vy > 0;
+      const isWithinPlatformWidth = playerRight > platform.left && playerLeft < platform.right;
+      const isLanding = state.y === platform.top || (state.y > platform.top && state.y < platform.bottom);
+      if (isGoingDown && isWithinPlatformWidth && isLanding) {
+        state.y = platform.top;
+        player.canDoubleJump = true;
+        state.vy = 0;
+        isOnPlatform = true;
+        break;
+      }
+    }
+
+    player.isOnSurface = isOnPlatform || state.y === bottom;
+  }
+
+  // mulberry32, seeded so scripted matches can be replayed in tests
+  private random(): number {
+    this.randomState = (this.randomState + 0x6D2B79F5) >>> 0;
+    let t = this.randomState;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  private randomId(): string {
+    return Math.floor(this.random() * Number.MAX_SAFE_INTEGER).toString(36);
+  }
+}
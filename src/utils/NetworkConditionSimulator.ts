@@ -0,0 +1,90 @@
+// Developer tool for reproducing bad network conditions locally. Every socket event
+// NetworkManager sends or receives is passed through here, and while conditions are
+// set it is delayed, jittered, dropped or reordered before being delivered.
+
+export interface NetworkConditions {
+  latencyMs: number;   // one-way delay added in each direction
+  jitterMs: number;    // +/- random variation on top of latency
+  dropRate: number;    // 0-1, only applied to unreliable events
+  reorderRate: number; // 0-1, only applied to unreliable events
+}
+
+export type NetworkPresetName = 'off' | 'goodWifi' | 'mobile4G' | 'transatlantic';
+
+export const NETWORK_PRESETS: Record<NetworkPresetName, { label: string; conditions: NetworkConditions | null }> = {
+  off: { label: 'Off', conditions: null },
+  goodWifi: { label: 'Good Wifi', conditions: { latencyMs: 10, jitterMs: 4, dropRate: 0.001, reorderRate: 0 } },
+  mobile4G: { label: 'Mobile 4G', conditions: { latencyMs: 45, jitterMs: 25, dropRate: 0.02, reorderRate: 0.01 } },
+  transatlantic: { label: 'Transatlantic', conditions: { latencyMs: 80, jitterMs: 10, dropRate: 0.005, reorderRate: 0.002 } },
+};
+
+export type TrafficDirection = 'incoming' | 'outgoing';
+
+// Events that would travel over an unreliable channel in a real netcode setup.
+// Everything else keeps its order and is never dropped, so e.g. matchFound can't get lost.
+// Ping and pong stay reliable: only one ping is in flight at a time and losing it would
+// stall ping updates and clock sync for the rest of the session.
+const UNRELIABLE_EVENTS = new Set<string>(['stateUpdate', 'playerInput']);
+
+// Socket lifecycle events are delivered untouched
+const PASSTHROUGH_EVENTS = new Set<string>(['connect', 'disconnect', 'connect_error']);
+
+// Extra delay for a packet picked for reordering, so later packets overtake it
+const MIN_REORDER_DELAY_MS = 20;
+
+export class NetworkConditionSimulator {
+  private conditions: NetworkConditions | null = null;
+  private lastInOrderDeliveryAt: Record<TrafficDirection, number> = { incoming: 0, outgoing: 0 };
+  private pendingTimeouts: Set<ReturnType<typeof setTimeout>> = new Set();
+
+  public setConditions(conditions: NetworkConditions | null): void {
+    this.conditions = conditions ? { ...conditions } : null;
+  }
+
+  /**
+   * Deliver an event now, later, or never, depending on the current conditions
+   */
+  public schedule(direction: TrafficDirection, event: string, deliver: () => void): void {
+    if (!this.conditions || PASSTHROUGH_EVENTS.has(event)) {
+      deliver();
+      return;
+    }
+
+    const { latencyMs, jitterMs, dropRate, reorderRate } = this.conditions;
+    const isUnreliable = UNRELIABLE_EVENTS.has(event);
+
+    if (isUnreliable && Math.random() < dropRate) {
+      return;
+    }
+
+    const now = performance.now();
+    const delay = Math.max(0, latencyMs + (Math.random() * 2 - 1) * jitterMs);
+    let deliverAt = now + delay;
+
+    if (isUnreliable && Math.random() < reorderRate) {
+      // Skip the in-order clamp and hold the packet back a little longer
+      deliverAt += Math.max(MIN_REORDER_DELAY_MS, jitterMs * 2);
+    } else {
+      // Jitter must not reorder packets on their own
+      deliverAt = Math.max(deliverAt, this.lastInOrderDeliveryAt[direction]);
+      this.lastInOrderDeliveryAt[direction] = deliverAt;
+    }
+
+    const timeoutId = setTimeout(() => {
+      this.pendingTimeouts.delete(timeoutId);
+      deliver();
+    }, deliverAt - now);
+    this.pendingTimeouts.add(timeoutId);
+  }
+
+  /**
+   * Drop everything still in flight
+   */
+  public clear(): void {
+    for (const timeoutId of this.pendingTimeouts) {
+      clearTimeout(timeoutId);
+    }
+    this.pendingTimeouts.clear();
+    this.lastInOrderDeliveryAt = { incoming: 0, outgoing: 0 };
+  }
+}
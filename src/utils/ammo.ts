@@ -0,0 +1,9 @@
+// Tomato ammo. Everyone starts with a full basket, every throw costs a tomato (an unleash
+// counts as one throw) and the ammo bush refills the basket. The server keeps the real
+// count, the client only predicts it so throwing doesn't wait on a round trip.
+
+export const AMMO = {
+    MAX: 10,
+    HARVEST_COOLDOWN_MS: 8000,
+    HARVEST_ANIMATION_MS: 600,
+} as const;
@@ -0,0 +1,72 @@
+// Local chat filter, applied to outgoing messages before they are sent and to incoming
+// ones before they are shown, so a client without it still can't push anything past us.
+
+export const CHAT_MAX_LENGTH = 120;
+
+// Kept short on purpose, this is a courtesy filter rather than moderation
+const BLOCKED_WORDS = [
+    'fuck',
+    'shit',
+    'bitch',
+    'cunt',
+    'dick',
+    'pussy',
+    'asshole',
+    'bastard',
+    'retard',
+    'faggot',
+    'nigger',
+    'nigga',
+    'whore',
+    'slut',
+];
+
+// Common substitutions used to get around word filters
+const LEET_MAP: Record<string, string> = {
+    '0': 'o',
+    '1': 'i',
+    '3': 'e',
+    '4': 'a',
+    '5': 's',
+    '7': 't',
+    '@': 'a',
+    '$': 's',
+    '!': 'i',
+};
+
+const normalizeWord = (word: string): string => {
+    return word
+        .toLowerCase()
+        .split('')
+        .map(char => LEET_MAP[char] ?? char)
+        .join('')
+        .replace(/[^a-z]/g, '')
+        .replace(/(.)\1+/g, '$1'); // "fuuuuck" -> "fuck"
+};
+
+const NORMALIZED_BLOCKED_WORDS = BLOCKED_WORDS.map(normalizeWord);
+
+const isBlocked = (word: string): boolean => {
+    const normalized = normalizeWord(word);
+    if (!normalized) return false;
+    return NORMALIZED_BLOCKED_WORDS.some(blocked => normalized.includes(blocked));
+};
+
+/**
+ * Clean up a chat message: collapse whitespace, strip control characters, cap the length
+ * and mask blocked words. Returns null if nothing is left to send.
+ */
+export const filterChatMessage = (text: string): string | null => {
+    const cleaned = text
+        .replace(/[\u0000-\u001f\u007f]/g, '')
+        .replace(/\s+/g, ' ')
+        .trim()
+        .slice(0, CHAT_MAX_LENGTH);
+
+    if (!cleaned) return null;
+
+    return cleaned
+        .split(' ')
+        .map(word => isBlocked(word) ? '*'.repeat(word.length) : word)
+        .join(' ');
+};
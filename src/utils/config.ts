@@ -1,14 +1,39 @@
+import type { GameMode } from '../types/network.types';
+import { isGameMode } from './gameModes';
+import type { Region } from './regions';
+
 interface Config {
     GAME_SERVER_URL: string;
     API_URL?: string;
     PVP_ON: boolean;
     YOUTUBE_API_URL: string;
+    USE_LOCAL_SERVER: boolean;
+    // Mode the local server runs its matches in
+    LOCAL_GAME_MODE: GameMode;
+    ENEMY_MAX_EXTRAPOLATION_MS: number;
+    // Endpoints probed on the login screen to measure latency per region
+    REGION_PROBE_URLS: Partial<Record<Region, string>>;
 }
 
 
+// Unset or not a number falls back, an explicit 0 is kept
+const numberFromEnv = (value: string | undefined, fallback: number): number => {
+    const parsed = value === undefined || value.trim() === '' ? NaN : Number(value);
+    return Number.isFinite(parsed) ? parsed : fallback;
+};
+
 export const config: Config = {
     GAME_SERVER_URL: import.meta.env.VITE_GAME_SERVER_URL || "http://localhost:3001",
     PVP_ON: import.meta.env.VITE_PVP_ON === "true" || false,
-    YOUTUBE_API_URL: import.meta.env.VITE_YOUTUBE_API_URL || "http://localhost:3000"
+    YOUTUBE_API_URL: import.meta.env.VITE_YOUTUBE_API_URL || "http://localhost:3000",
+    USE_LOCAL_SERVER: import.meta.env.VITE_USE_LOCAL_SERVER === "true" || false,
+    LOCAL_GAME_MODE: isGameMode(import.meta.env.VITE_LOCAL_GAME_MODE) ? import.meta.env.VITE_LOCAL_GAME_MODE : 'ffa',
+    ENEMY_MAX_EXTRAPOLATION_MS: numberFromEnv(import.meta.env.VITE_ENEMY_MAX_EXTRAPOLATION_MS, 250),
+    // Only regions with their own endpoint are probed, a shared host can't tell regions apart
+    REGION_PROBE_URLS: {
+        NA: import.meta.env.VITE_REGION_PROBE_URL_NA || undefined,
+        EU: import.meta.env.VITE_REGION_PROBE_URL_EU || undefined,
+        ASIA: import.meta.env.VITE_REGION_PROBE_URL_ASIA || undefined,
+    },
 };
 
@@ -0,0 +1,44 @@
+// Game modes the server can run a match in. The mode arrives with the match settings,
+// the client only adapts its HUD and hit rules to it.
+
+import type { GameMode, MatchSettings } from '../types/network.types';
+
+export const GAME_MODES: readonly GameMode[] = ['ffa', 'tdm', 'ctb', 'koth'];
+
+export const GAME_MODE_LABELS: Record<GameMode, string> = {
+    ffa: 'Free for all',
+    tdm: 'Team deathmatch',
+    ctb: 'Capture the basket',
+    koth: 'King of the hill',
+};
+
+export const isTeamMode = (mode: GameMode): boolean => {
+    return mode === 'tdm' || mode === 'ctb';
+};
+
+/**
+ * Modes won on an objective (captures or hill points) rather than on kills
+ */
+export const isObjectiveMode = (mode: GameMode): boolean => {
+    return mode === 'ctb' || mode === 'koth';
+};
+
+/**
+ * What a player is ranked on: captures or hill points in the objective modes, kills otherwise
+ */
+export const getRankingScore = (score: { kills: number, captures?: number, points?: number }): number => {
+    return score.captures ?? score.points ?? score.kills;
+};
+
+/**
+ * The score that wins the match, e.g. "10 kills"
+ */
+export const getScoreTarget = (settings: MatchSettings): string => {
+    if (settings.captureLimit !== undefined) return `${settings.captureLimit} captures`;
+    if (settings.pointLimit !== undefined) return `${settings.pointLimit} points`;
+    return `${settings.killLimit} kills`;
+};
+
+export const isGameMode = (value: unknown): value is GameMode => {
+    return GAME_MODES.includes(value as GameMode);
+};
@@ -0,0 +1,60 @@
+// Invite codes for private lobbies. The server hands them out, we only need to read them
+// back from what a player pastes (a bare code or a whole invite link) and build links.
+
+export const INVITE_CODE_LENGTH = 6;
+
+// No 0/O or 1/I, codes get read out over voice chat
+export const INVITE_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+const INVITE_URL_PARAM = 'match';
+
+const INVITE_CODE_PATTERN = new RegExp(`^[${INVITE_CODE_ALPHABET}]{${INVITE_CODE_LENGTH}}$`);
+
+export const isInviteCode = (value: string): boolean => {
+    return INVITE_CODE_PATTERN.test(value);
+};
+
+/**
+ * Pull an invite code out of a bare code or an invite link. Returns null if there is none.
+ */
+export const parseInviteCode = (raw: string): string | null => {
+    const trimmed = raw.trim();
+    if (!trimmed) return null;
+
+    let candidate = trimmed;
+    try {
+        const url = new URL(trimmed);
+        candidate = url.searchParams.get(INVITE_URL_PARAM) ?? '';
+    } catch {
+        // Not a link, treat it as the code itself
+    }
+
+    const code = candidate.replace(/[\s-]/g, '').toUpperCase();
+    return isInviteCode(code) ? code : null;
+};
+
+export const getInviteUrl = (code: string): string => {
+    const url = new URL(window.location.href);
+    url.search = '';
+    url.hash = '';
+    url.searchParams.set(INVITE_URL_PARAM, code);
+    return url.toString();
+};
+
+/**
+ * Invite code from the page URL (?match=CODE), if the player arrived through an invite link
+ */
+export const getInviteCodeFromPage = (): string | null => {
+    const param = new URLSearchParams(window.location.search).get(INVITE_URL_PARAM);
+    return param ? parseInviteCode(param) : null;
+};
+
+/**
+ * Drop ?match= from the address bar once it has been used, so a reload doesn't rejoin a stale lobby
+ */
+export const clearInviteCodeFromPage = (): void => {
+    const url = new URL(window.location.href);
+    if (!url.searchParams.has(INVITE_URL_PARAM)) return;
+    url.searchParams.delete(INVITE_URL_PARAM);
+    window.history.replaceState(window.history.state, '', url.toString());
+};
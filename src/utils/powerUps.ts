@@ -0,0 +1,78 @@
+// Power-ups spawn on fixed points in the arena, are picked up by touching them and run
+// for a while. The server owns all of that, the definitions here only describe them to
+// players. The Fat Love spread is shared so our prediction fires the same shots the
+// server does.
+
+import type { PowerUpType } from '../types/network.types';
+
+export interface PowerUpDefinition {
+    type: PowerUpType;
+    name: string;
+    description: string;
+    icon: string; // short label drawn on the pickup and the HUD icon
+    color: number;
+    durationMs: number;
+}
+
+export const POWER_UPS: Record<PowerUpType, PowerUpDefinition> = {
+    fatLoveDefense: {
+        type: 'fatLoveDefense',
+        name: 'Fat Love: Feast',
+        description: 'Eats every tomato thrown at you',
+        icon: 'FL',
+        color: 0xFF69B4,
+        durationMs: 8000,
+    },
+    fatLoveOffense: {
+        type: 'fatLoveOffense',
+        name: 'Fat Love: Unleash',
+        description: 'Your next throw fires every tomato he ate',
+        icon: 'FL!',
+        color: 0xFF4500,
+        durationMs: 10000,
+    },
+};
+
+export const POWER_UP_TYPES = Object.keys(POWER_UPS) as PowerUpType[];
+
+export const FAT_LOVE = {
+    MAX_CHARGES: 20,
+    OFFENSE_CHARGES: 8, // picked up straight from a spawn point, nothing eaten yet
+    SPREAD_RADIANS: Math.PI / 6,
+} as const;
+
+/**
+ * Where each tomato of an unleash is aimed: fanned out evenly around the aim point
+ */
+export const getUnleashTargets = (
+    origin: { x: number, y: number },
+    target: { x: number, y: number },
+    count: number
+): { x: number, y: number }[] => {
+    const dx = target.x - origin.x;
+    const dy = target.y - origin.y;
+    const distance = Math.hypot(dx, dy) || 1;
+    const aim = Math.atan2(dy, dx);
+
+    return Array.from({ length: count }, (_, index) => {
+        const offset = count === 1 ? 0 : (index / (count - 1) - 0.5) * FAT_LOVE.SPREAD_RADIANS;
+        return {
+            x: origin.x + Math.cos(aim + offset) * distance,
+            y: origin.y + Math.sin(aim + offset) * distance,
+        };
+    });
+};
+
+/**
+ * Projectile ids of an unleash, derived from the throw so the server can match them up
+ */
+export const getUnleashProjectileId = (throwId: string, index: number): string => {
+    return index === 0 ? throwId : `${throwId}-${index}`;
+};
+
+/**
+ * The throw a projectile id belongs to, undoes getUnleashProjectileId
+ */
+export const getThrowId = (projectileId: string): string => {
+    return projectileId.split('-')[0];
+};
@@ -0,0 +1,23 @@
+// Canned phrases for the quick-chat menu. Only the id goes over the network, so every
+// client shows the same text, and nothing typed by players ends up in a speech bubble.
+
+export interface QuickChatOption {
+    id: number;          // also the number key that picks it in the menu
+    text: string;
+    voiceClip?: string;  // AudioManager sound id played along with the bubble
+}
+
+export const QUICK_CHAT_OPTIONS: readonly QuickChatOption[] = [
+    { id: 1, text: 'Nice shot!' },
+    { id: 2, text: 'I like it!', voiceClip: 'kill4' },
+    { id: 3, text: 'Haha!', voiceClip: 'kill2' },
+    { id: 4, text: 'What?!', voiceClip: 'death5' },
+    { id: 5, text: 'Okayyy...', voiceClip: 'death4' },
+    { id: 6, text: 'Fight!', voiceClip: 'matchStart1' },
+    { id: 7, text: 'Good game' },
+    { id: 8, text: 'Oops' },
+];
+
+export const getQuickChatOption = (id: number): QuickChatOption | undefined => {
+    return QUICK_CHAT_OPTIONS.find(option => option.id === id);
+};
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { getBestRegion } from './regions';
+
+describe('getBestRegion', () => {
+    it('keeps the saved region when only one region was measured', () => {
+        expect(getBestRegion({ EU: 40 }, 'NA')).toBeNull();
+    });
+
+    it('keeps the saved region when the gap is within noise', () => {
+        expect(getBestRegion({ NA: 52, EU: 48, ASIA: 50 }, 'NA')).toBeNull();
+    });
+
+    it('keeps a saved region that was not measured', () => {
+        expect(getBestRegion({ NA: 200, EU: 40 }, 'GLOBAL')).toBeNull();
+    });
+
+    it('switches to a clearly faster region', () => {
+        expect(getBestRegion({ NA: 180, EU: 40 }, 'NA')).toBe('EU');
+    });
+
+    it('switches away from an unreachable saved region', () => {
+        expect(getBestRegion({ NA: null, EU: 40, ASIA: 120 }, 'NA')).toBe('EU');
+    });
+});
@@ -0,0 +1,91 @@
+// Matchmaking regions shared by the login screen, SettingsManager and the queue screen.
+// GLOBAL is a matchmaking pool rather than a location, so it is never probed.
+
+export const REGIONS = ['NA', 'EU', 'ASIA', 'GLOBAL'] as const;
+
+export type Region = typeof REGIONS[number];
+
+export const REGION_LABELS: Record<Region, string> = {
+    NA: 'North America',
+    EU: 'Europe',
+    ASIA: 'Asia',
+    GLOBAL: 'Global',
+};
+
+export type RegionLatencies = Partial<Record<Region, number | null>>;
+
+const PROBE_ATTEMPTS = 3;
+const PROBE_TIMEOUT_MS = 2000;
+// A faster region has to win by this much before it replaces the saved one, smaller gaps are noise
+const SWITCH_MARGIN_MS = 30;
+
+export const isRegion = (value: unknown): value is Region => {
+    return typeof value === 'string' && (REGIONS as readonly string[]).includes(value);
+};
+
+/**
+ * Round trip time to a URL in ms, or null if it didn't answer in time.
+ * The response is opaque (no-cors), we only care how long it took.
+ */
+const probeUrl = async (url: string): Promise<number | null> => {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), PROBE_TIMEOUT_MS);
+    const start = performance.now();
+    try {
+        await fetch(url, { method: 'HEAD', mode: 'no-cors', cache: 'no-store', signal: controller.signal });
+        return performance.now() - start;
+    } catch {
+        return null;
+    } finally {
+        clearTimeout(timeoutId);
+    }
+};
+
+/**
+ * Probe every region with a configured URL a few times and keep the best round trip.
+ * The first request to a host pays for DNS/TLS setup, taking the minimum hides that.
+ * onResult is called as soon as each region finishes.
+ */
+export const probeRegions = async (
+    urls: Partial<Record<Region, string>>,
+    onResult?: (region: Region, latency: number | null) => void
+): Promise<RegionLatencies> => {
+    const results: RegionLatencies = {};
+
+    await Promise.all(REGIONS.filter(region => region !== 'GLOBAL' && urls[region]).map(async (region) => {
+        let best: number | null = null;
+        for (let i = 0; i < PROBE_ATTEMPTS; i++) {
+            const latency = await probeUrl(urls[region] as string);
+            if (latency !== null && (best === null || latency < best)) {
+                best = latency;
+            }
+        }
+        results[region] = best === null ? null : Math.round(best);
+        onResult?.(region, results[region] ?? null);
+    }));
+
+    return results;
+};
+
+/**
+ * Region to preselect instead of the saved one, or null to keep it. Needs at least two
+ * measured regions, and a saved region we didn't measure (no endpoint, GLOBAL) is kept.
+ */
+export const getBestRegion = (latencies: RegionLatencies, saved: Region): Region | null => {
+    let best: Region | null = null;
+    let measured = 0;
+    for (const region of REGIONS) {
+        const latency = latencies[region];
+        if (latency === null || latency === undefined) continue;
+        measured++;
+        if (best === null || latency < (latencies[best] as number)) {
+            best = region;
+        }
+    }
+    if (best === null || measured < 2 || best === saved) return null;
+
+    const savedLatency = latencies[saved];
+    if (savedLatency === undefined) return null;
+    if (savedLatency !== null && savedLatency - (latencies[best] as number) < SWITCH_MARGIN_MS) return null;
+    return best;
+};
@@ -0,0 +1,24 @@
+// Teams for the team based game modes. Free-for-all players have no team and keep the
+// classic colors (cyan for self, purple for everyone else).
+
+import type { TeamId } from '../types/network.types';
+
+export const TEAMS: readonly TeamId[] = ['red', 'blue'];
+
+export const TEAM_COLORS: Record<TeamId, number> = {
+    red: 0xE8594F,
+    blue: 0x4F8BE8,
+};
+
+// Free-for-all colors
+export const DEFAULT_PLAYER_COLOR = 0x7ED9F8;
+export const DEFAULT_ENEMY_COLOR = 0xD06DFE;
+
+export const TEAM_LABELS: Record<TeamId, string> = {
+    red: 'RED',
+    blue: 'BLUE',
+};
+
+export const isSameTeam = (a?: TeamId, b?: TeamId): boolean => {
+    return a !== undefined && a === b;
+};